@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import { randomUUID } from 'crypto';
+
+// Files the renderer writes in chunks (exports, reports), by handle. The
+// renderer only ever sees handles, never opens a path itself.
+const openFiles = new Map<string, { filePath: string; stream: fs.WriteStream }>();
+
+export function openWriteFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const stream = fs.createWriteStream(filePath, { encoding: 'utf8' });
+    stream.once('error', reject);
+    stream.once('open', () => {
+      const handle = randomUUID();
+      openFiles.set(handle, { filePath, stream });
+      resolve(handle);
+    });
+  });
+}
+
+function getFile(handle: string) {
+  const file = openFiles.get(handle);
+  if (!file) {
+    throw new Error('File is not open');
+  }
+  return file;
+}
+
+/** Resolves once the stream can take more, so large exports don't pile up in memory. */
+export function writeToFile(handle: string, chunk: string): Promise<void> {
+  const { stream } = getFile(handle);
+  return new Promise((resolve, reject) => {
+    const onError = (err: Error) => reject(err);
+    stream.once('error', onError);
+    const flushed = stream.write(chunk, () => {
+      stream.off('error', onError);
+      if (flushed) resolve();
+    });
+    if (!flushed) {
+      stream.once('drain', () => resolve());
+    }
+  });
+}
+
+// discard removes what was written so far, e.g. when an export is cancelled
+export function closeFile(handle: string, discard = false): Promise<void> {
+  const { filePath, stream } = getFile(handle);
+  openFiles.delete(handle);
+  return new Promise((resolve, reject) => {
+    stream.end(() => {
+      if (!discard) {
+        resolve();
+        return;
+      }
+      fs.promises.unlink(filePath).then(resolve, reject);
+    });
+  });
+}
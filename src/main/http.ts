@@ -0,0 +1,79 @@
+import { httpRequest, HttpResponse } from './transport';
+import { getAccessToken, isOidc, OidcCredentials } from './oidc';
+
+export interface HeaderEntry {
+  name: string;
+  value: string;
+}
+
+/** Everything the bridge needs to reach one Weaviate instance. */
+export interface ConnectionOptions extends OidcCredentials {
+  apiKey: string;
+  // Sent with every request, e.g. X-OpenAI-Api-Key for vectorizer modules
+  headers: HeaderEntry[];
+}
+
+export interface BridgeRequest {
+  method: string;
+  path: string;
+  body?: string;
+  headers?: Record<string, string>;
+}
+
+export interface BridgeResponse extends HttpResponse {
+  // Set when the request never produced an HTTP response (DNS, TLS, proxy, timeout)
+  // or when signing in failed
+  error?: string;
+}
+
+async function getAuthorization(connection: ConnectionOptions, forceRefresh: boolean): Promise<string | null> {
+  if (isOidc(connection.authMethod)) {
+    return `Bearer ${await getAccessToken(connection, forceRefresh)}`;
+  }
+  return connection.apiKey ? `Bearer ${connection.apiKey}` : null;
+}
+
+export async function sendRequest(connection: ConnectionOptions, request: BridgeRequest): Promise<BridgeResponse> {
+  try {
+    let url: URL;
+    try {
+      url = new URL(connection.weaviateUrl.replace(/\/$/, '') + request.path);
+    } catch {
+      throw new Error(`Invalid Weaviate URL: ${connection.weaviateUrl}`);
+    }
+
+    const send = async (forceRefresh: boolean) => {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+      };
+      for (const header of connection.headers) {
+        if (header.name.trim()) {
+          headers[header.name.trim()] = header.value;
+        }
+      }
+      Object.assign(headers, request.headers);
+
+      const authorization = await getAuthorization(connection, forceRefresh);
+      if (authorization) {
+        headers['Authorization'] = authorization;
+      }
+
+      return httpRequest(url, connection, { method: request.method, headers, body: request.body });
+    };
+
+    const response = await send(false);
+    // The token may have been revoked or expired early; sign in again once
+    if (response.status === 401 && isOidc(connection.authMethod)) {
+      return await send(true);
+    }
+    return response;
+  } catch (error) {
+    return {
+      status: 0,
+      statusText: '',
+      headers: {},
+      body: '',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
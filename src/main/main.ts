@@ -1,11 +1,64 @@
 //@ts-nocheck
-import { app, BrowserWindow, ipcMain } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
+import { randomUUID } from 'crypto';
+import { getSecretBackend, isEncryptedSecret } from './secrets';
+import { sendRequest, BridgeRequest, BridgeResponse, ConnectionOptions, HeaderEntry } from './http';
+import { openWriteFile, writeToFile, closeFile } from './files';
 
 type StoreType = {
-  get: (key: string, defaultValue?: string) => string;
-  set: (key: string, value: string) => void;
+  get: <T>(key: string, defaultValue?: T) => T;
+  set: (key: string, value: unknown) => void;
+  delete: (key: string) => void;
+};
+
+type ConnectionProfile = ConnectionOptions & {
+  id: string;
+  name: string;
+  color: string;
+};
+
+// Profile fields that hold credentials, with the flag the renderer sees instead
+const SECRET_FIELDS = {
+  apiKey: 'hasApiKey',
+  password: 'hasPassword',
+  clientSecret: 'hasClientSecret',
+} as const;
+
+type SecretField = keyof typeof SECRET_FIELDS;
+
+// What the renderer sees: secrets never leave the main process. On the way
+// back an empty secret means "unchanged" unless its has* flag was cleared.
+// Header values are masked the same way, with hasValue as their flag.
+type RendererFlag = (typeof SECRET_FIELDS)[SecretField];
+type RendererHeader = HeaderEntry & { hasValue: boolean };
+type RendererProfile = Omit<ConnectionProfile, 'headers'> &
+  Record<RendererFlag, boolean> & { headers: RendererHeader[] };
+
+type Settings = {
+  profiles: RendererProfile[];
+  activeProfileId: string | null;
+};
+
+// profileId -> collection name -> preferences (opaque to the main process)
+type CollectionPrefsStore = Record<string, Record<string, Record<string, unknown>>>;
+
+const PROFILE_DEFAULTS: Omit<ConnectionProfile, 'id' | 'name' | 'weaviateUrl'> = {
+  apiKey: '',
+  authMethod: 'apiKey',
+  username: '',
+  password: '',
+  oidcClientId: '',
+  clientSecret: '',
+  oidcScopes: '',
+  headers: [],
+  color: 'gray',
+  caFile: '',
+  clientCertFile: '',
+  clientKeyFile: '',
+  allowInsecureTls: false,
+  proxyUrl: '',
 };
 
 let store: StoreType | null = null;
@@ -22,18 +75,127 @@ async function initializeStore(): Promise<StoreType> {
     const StoreModule = await dynamicImport('electron-store');
     const Store = StoreModule.default;
     store = new Store<{
+      profiles: ConnectionProfile[];
+      activeProfileId: string | null;
+      collectionPrefs: CollectionPrefsStore;
       weaviateUrl?: string;
       apiKey?: string;
     }>({
       defaults: {
-        weaviateUrl: '',
-        apiKey: '',
+        profiles: [],
+        activeProfileId: null,
+        collectionPrefs: {},
       },
     }) as unknown as StoreType;
+    migrateLegacySettings(store);
+    encryptPlaintextSecrets(store);
   }
   return store;
 }
 
+// Versions before connection profiles stored a single weaviateUrl/apiKey pair
+// at the top level. Move it into a "Default" profile so nothing is lost.
+function migrateLegacySettings(storeInstance: StoreType) {
+  const legacyUrl = storeInstance.get<string>('weaviateUrl', '');
+  const legacyApiKey = storeInstance.get<string>('apiKey', '');
+  const profiles = storeInstance.get<ConnectionProfile[]>('profiles', []);
+
+  if (legacyUrl && profiles.length === 0) {
+    const profile: ConnectionProfile = {
+      ...PROFILE_DEFAULTS,
+      id: randomUUID(),
+      name: 'Default',
+      weaviateUrl: legacyUrl,
+      apiKey: legacyApiKey,
+    };
+    storeInstance.set('profiles', [profile]);
+    storeInstance.set('activeProfileId', profile.id);
+  }
+
+  storeInstance.delete('weaviateUrl');
+  storeInstance.delete('apiKey');
+}
+
+// Header values often carry module API keys, so they are treated as secrets too
+function mapSecrets(profile: ConnectionProfile, transform: (value: string) => string): ConnectionProfile {
+  const mapped = { ...profile, headers: (profile.headers ?? []).map((h) => ({ ...h, value: transform(h.value) })) };
+  for (const field of Object.keys(SECRET_FIELDS) as SecretField[]) {
+    mapped[field] = transform(profile[field] ?? '');
+  }
+  return mapped;
+}
+
+// Secrets written by older versions (or while encryption was unavailable)
+// are plaintext. Re-encrypt them as soon as the OS lets us.
+function encryptPlaintextSecrets(storeInstance: StoreType) {
+  const backend = getSecretBackend();
+  if (!backend.encrypted) return;
+
+  const profiles = storeInstance.get<ConnectionProfile[]>('profiles', []);
+  const isPlaintext = (value: string) => !!value && !isEncryptedSecret(value);
+  const hasPlaintext = (p: ConnectionProfile) =>
+    (Object.keys(SECRET_FIELDS) as SecretField[]).some((field) => isPlaintext(p[field] ?? '')) ||
+    (p.headers ?? []).some((h) => isPlaintext(h.value));
+  if (!profiles.some(hasPlaintext)) return;
+
+  storeInstance.set(
+    'profiles',
+    profiles.map((p) => mapSecrets(p, (value) => (isPlaintext(value) ? backend.encrypt(value) : value))),
+  );
+}
+
+function readProfiles(storeInstance: StoreType): ConnectionProfile[] {
+  const backend = getSecretBackend();
+  // A secret that no longer decrypts (keychain entry replaced, corrupt data)
+  // reads as missing, so the profile and every other one still load
+  const decrypt = (value: string) => {
+    try {
+      return backend.decrypt(value);
+    } catch (error) {
+      console.warn('Could not decrypt a stored secret; treating it as missing:', error);
+      return '';
+    }
+  };
+  return storeInstance
+    .get<ConnectionProfile[]>('profiles', [])
+    .map((p) => mapSecrets({ ...PROFILE_DEFAULTS, ...p }, decrypt));
+}
+
+function toRendererProfile(profile: ConnectionProfile): RendererProfile {
+  const rendererProfile = { ...profile } as RendererProfile;
+  for (const [field, flag] of Object.entries(SECRET_FIELDS) as [SecretField, RendererFlag][]) {
+    rendererProfile[field] = '';
+    rendererProfile[flag] = !!profile[field];
+  }
+  rendererProfile.headers = profile.headers.map((h) => ({ name: h.name, value: '', hasValue: !!h.value }));
+  return rendererProfile;
+}
+
+// Restore the stored secrets for a profile coming back from the renderer
+function fromRendererProfile(profile: RendererProfile, existing: ConnectionProfile[]): ConnectionProfile {
+  const stored = existing.find((p) => p.id === profile.id);
+  const { hasApiKey: _hasApiKey, hasPassword: _hasPassword, hasClientSecret: _hasClientSecret, ...connection } = profile;
+  for (const [field, flag] of Object.entries(SECRET_FIELDS) as [SecretField, RendererFlag][]) {
+    connection[field] = profile[field] || (profile[flag] ? stored?.[field] ?? '' : '');
+  }
+  connection.headers = (profile.headers ?? []).map((h) => ({
+    name: h.name,
+    value: h.value || (h.hasValue ? stored?.headers.find((s) => s.name === h.name)?.value ?? '' : ''),
+  }));
+  return connection;
+}
+
+async function getProfile(profileId: string | null): Promise<ConnectionProfile | null> {
+  const storeInstance = await initializeStore();
+  const id = profileId ?? storeInstance.get<string | null>('activeProfileId', null);
+  return readProfiles(storeInstance).find((p) => p.id === id) ?? null;
+}
+
+function writeProfiles(storeInstance: StoreType, profiles: ConnectionProfile[]) {
+  const backend = getSecretBackend();
+  storeInstance.set('profiles', profiles.map((p) => mapSecrets(p, (value) => backend.encrypt(value))));
+}
+
 function createWindow() {
   const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
   
@@ -96,17 +258,113 @@ app.on('window-all-closed', () => {
 });
 
 // IPC handlers for settings
-ipcMain.handle('get-settings', async () => {
+ipcMain.handle('get-settings', async (): Promise<Settings> => {
   const storeInstance = await initializeStore();
   return {
-    weaviateUrl: storeInstance.get('weaviateUrl', ''),
-    apiKey: storeInstance.get('apiKey', ''),
+    profiles: readProfiles(storeInstance).map(toRendererProfile),
+    activeProfileId: storeInstance.get<string | null>('activeProfileId', null),
   };
 });
 
-ipcMain.handle('save-settings', async (_event, settings: { weaviateUrl: string; apiKey: string }) => {
+ipcMain.handle('save-settings', async (_event, settings: Settings) => {
+  const storeInstance = await initializeStore();
+  const activeProfileId = settings.profiles.some((p) => p.id === settings.activeProfileId)
+    ? settings.activeProfileId
+    : settings.profiles[0]?.id ?? null;
+  const existing = readProfiles(storeInstance);
+  writeProfiles(storeInstance, settings.profiles.map((p) => fromRendererProfile(p, existing)));
+  storeInstance.set('activeProfileId', activeProfileId);
+
+  // Forget per-collection preferences of removed profiles
+  const collectionPrefs = storeInstance.get<CollectionPrefsStore>('collectionPrefs', {});
+  const kept = Object.fromEntries(
+    Object.entries(collectionPrefs).filter(([profileId]) => settings.profiles.some((p) => p.id === profileId)),
+  );
+  storeInstance.set('collectionPrefs', kept);
+  return { success: true };
+});
+
+ipcMain.handle('get-secret-storage-status', async () => {
+  const backend = getSecretBackend();
+  return { backend: backend.name, encrypted: backend.encrypted };
+});
+
+ipcMain.handle('set-active-profile', async (_event, profileId: string) => {
   const storeInstance = await initializeStore();
-  storeInstance.set('weaviateUrl', settings.weaviateUrl);
-  storeInstance.set('apiKey', settings.apiKey);
+  const profiles = storeInstance.get<ConnectionProfile[]>('profiles', []);
+  if (!profiles.some((p) => p.id === profileId)) {
+    return { success: false };
+  }
+  storeInstance.set('activeProfileId', profileId);
   return { success: true };
 });
+
+// Per-collection UI preferences (saved filters, column layout), keyed by
+// profile and collection. Saving merges into what's already stored so each
+// feature can write only its own keys.
+ipcMain.handle('get-collection-prefs', async (_event, profileId: string, collection: string) => {
+  const storeInstance = await initializeStore();
+  const collectionPrefs = storeInstance.get<CollectionPrefsStore>('collectionPrefs', {});
+  return collectionPrefs[profileId]?.[collection] ?? {};
+});
+
+ipcMain.handle(
+  'save-collection-prefs',
+  async (_event, profileId: string, collection: string, prefs: Record<string, unknown>) => {
+    const storeInstance = await initializeStore();
+    const collectionPrefs = storeInstance.get<CollectionPrefsStore>('collectionPrefs', {});
+    const profilePrefs = collectionPrefs[profileId] ?? {};
+    storeInstance.set('collectionPrefs', {
+      ...collectionPrefs,
+      [profileId]: { ...profilePrefs, [collection]: { ...profilePrefs[collection], ...prefs } },
+    });
+    return { success: true };
+  },
+);
+
+// HTTP bridge: all Weaviate traffic leaves from here so TLS, proxy and
+// credentials are handled outside the renderer
+ipcMain.handle(
+  'weaviate-request',
+  async (_event, profileId: string | null, request: BridgeRequest): Promise<BridgeResponse> => {
+    const profile = await getProfile(profileId);
+    if (!profile || !profile.weaviateUrl) {
+      return { status: 0, statusText: '', headers: {}, body: '', error: 'Weaviate URL is not configured. Please set it in Settings.' };
+    }
+    return sendRequest(profile, request);
+  },
+);
+
+ipcMain.handle('test-connection', async (_event, profile: RendererProfile): Promise<BridgeResponse> => {
+  const storeInstance = await initializeStore();
+  const connection = fromRendererProfile(profile, readProfiles(storeInstance));
+  return sendRequest(connection, { method: 'GET', path: '/v1/schema' });
+});
+
+ipcMain.handle('select-file', async (_event, title: string) => {
+  const options: Electron.OpenDialogOptions = { title, properties: ['openFile'] };
+  const result = mainWindow ? await dialog.showOpenDialog(mainWindow, options) : await dialog.showOpenDialog(options);
+  return result.canceled ? null : result.filePaths[0];
+});
+
+// Asks where to save, then opens the file for chunked writes. Returns null if
+// the user cancels the dialog.
+ipcMain.handle(
+  'create-file',
+  async (_event, title: string, defaultPath: string, filters: Electron.FileFilter[]) => {
+    const options: Electron.SaveDialogOptions = { title, defaultPath, filters };
+    const result = mainWindow ? await dialog.showSaveDialog(mainWindow, options) : await dialog.showSaveDialog(options);
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+    return { handle: await openWriteFile(result.filePath), filePath: result.filePath };
+  },
+);
+
+ipcMain.handle('write-file', async (_event, handle: string, chunk: string) => {
+  await writeToFile(handle, chunk);
+});
+
+ipcMain.handle('close-file', async (_event, handle: string, discard: boolean) => {
+  await closeFile(handle, discard);
+});
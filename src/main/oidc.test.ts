@@ -0,0 +1,187 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { getAccessToken, OidcCredentials } from './oidc';
+import { ConnectionOptions, sendRequest } from './http';
+
+// A mock Weaviate with OIDC enabled, and its provider, on one local port
+let server: http.Server;
+let baseUrl: string;
+let tokenRequests: URLSearchParams[];
+let issued: number;
+// What the token endpoint answers; by default a fresh token pair per request
+let issueToken: (form: URLSearchParams) => { status: number; body: Record<string, unknown> };
+// Tokens /v1/meta accepts; any other gets a 401
+let acceptedTokens: Set<string> | null;
+
+function defaultIssueToken() {
+  issued += 1;
+  return {
+    status: 200,
+    body: { access_token: `token-${issued}`, refresh_token: `refresh-${issued}`, expires_in: 3600 },
+  };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      if (req.url === '/v1/.well-known/openid-configuration') {
+        sendJson(res, 200, {
+          href: `${baseUrl}/idp/.well-known/openid-configuration`,
+          clientId: 'weaviate-client',
+          scopes: ['openid', 'email'],
+        });
+      } else if (req.url === '/idp/.well-known/openid-configuration') {
+        sendJson(res, 200, { token_endpoint: `${baseUrl}/idp/token` });
+      } else if (req.url === '/idp/token' && req.method === 'POST') {
+        const form = new URLSearchParams(Buffer.concat(chunks).toString('utf8'));
+        tokenRequests.push(form);
+        const { status, body } = issueToken(form);
+        sendJson(res, status, body);
+      } else if (req.url === '/v1/meta') {
+        const token = req.headers.authorization?.replace(/^Bearer /, '') ?? '';
+        if (acceptedTokens && !acceptedTokens.has(token)) {
+          sendJson(res, 401, { error: [{ message: 'token expired' }] });
+        } else {
+          sendJson(res, 200, { version: '1.25.0' });
+        }
+      } else {
+        sendJson(res, 404, {});
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  tokenRequests = [];
+  issued = 0;
+  issueToken = defaultIssueToken;
+  acceptedTokens = null;
+});
+
+// Tokens are cached per set of credentials, so each test signs in as someone new
+function credentials(overrides: Partial<OidcCredentials>): ConnectionOptions {
+  return {
+    weaviateUrl: baseUrl,
+    authMethod: 'oidcPassword',
+    username: '',
+    password: '',
+    oidcClientId: '',
+    clientSecret: '',
+    oidcScopes: '',
+    caFile: '',
+    clientCertFile: '',
+    clientKeyFile: '',
+    allowInsecureTls: false,
+    proxyUrl: '',
+    apiKey: '',
+    headers: [],
+    ...overrides,
+  };
+}
+
+describe('getAccessToken', () => {
+  it('signs in with the password grant and caches the token', async () => {
+    const user = credentials({ username: 'alice', password: 'secret' });
+
+    expect(await getAccessToken(user)).toBe('token-1');
+    expect(await getAccessToken(user)).toBe('token-1');
+
+    expect(tokenRequests).toHaveLength(1);
+    expect(Object.fromEntries(tokenRequests[0])).toEqual({
+      client_id: 'weaviate-client',
+      grant_type: 'password',
+      username: 'alice',
+      password: 'secret',
+      scope: 'openid email offline_access',
+    });
+  });
+
+  it('signs in with the client credentials grant', async () => {
+    const client = credentials({
+      authMethod: 'oidcClientCredentials',
+      oidcClientId: 'my-app',
+      clientSecret: 'app-secret',
+      oidcScopes: 'weaviate.read',
+    });
+
+    expect(await getAccessToken(client)).toBe('token-1');
+
+    expect(Object.fromEntries(tokenRequests[0])).toEqual({
+      client_id: 'my-app',
+      client_secret: 'app-secret',
+      grant_type: 'client_credentials',
+      scope: 'weaviate.read',
+    });
+  });
+
+  it('refreshes a token that is about to expire', async () => {
+    const user = credentials({ username: 'bob', password: 'secret' });
+    // Inside the expiry margin, so the next call refreshes
+    issueToken = () => ({ status: 200, body: { access_token: 'short', refresh_token: 'refresh-short', expires_in: 5 } });
+    expect(await getAccessToken(user)).toBe('short');
+
+    issueToken = defaultIssueToken;
+    expect(await getAccessToken(user)).toBe('token-1');
+
+    expect(tokenRequests.map((form) => form.get('grant_type'))).toEqual(['password', 'refresh_token']);
+    expect(tokenRequests[1].get('refresh_token')).toBe('refresh-short');
+  });
+
+  it('signs in again when the refresh token is rejected', async () => {
+    const user = credentials({ username: 'carol', password: 'secret' });
+    expect(await getAccessToken(user)).toBe('token-1');
+
+    issueToken = (form) =>
+      form.get('grant_type') === 'refresh_token'
+        ? { status: 400, body: { error: 'invalid_grant' } }
+        : defaultIssueToken();
+    expect(await getAccessToken(user, true)).toBe('token-2');
+
+    expect(tokenRequests.map((form) => form.get('grant_type'))).toEqual(['password', 'refresh_token', 'password']);
+  });
+
+  it('reports the provider error when signing in fails', async () => {
+    const user = credentials({ username: 'dave', password: 'wrong' });
+    issueToken = () => ({ status: 401, body: { error: 'invalid_grant', error_description: 'Invalid user credentials' } });
+
+    await expect(getAccessToken(user)).rejects.toThrow('OIDC token request failed: Invalid user credentials');
+  });
+});
+
+describe('sendRequest', () => {
+  it('signs in again once when Weaviate answers 401', async () => {
+    const user = credentials({ username: 'erin', password: 'secret' });
+    // The first token was revoked behind the app's back
+    acceptedTokens = new Set(['token-2']);
+
+    const response = await sendRequest(user, { method: 'GET', path: '/v1/meta' });
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({ version: '1.25.0' });
+    expect(tokenRequests.map((form) => form.get('grant_type'))).toEqual(['password', 'refresh_token']);
+  });
+
+  it('returns the second 401 instead of retrying forever', async () => {
+    const user = credentials({ username: 'frank', password: 'secret' });
+    acceptedTokens = new Set();
+
+    const response = await sendRequest(user, { method: 'GET', path: '/v1/meta' });
+
+    expect(response.status).toBe(401);
+    expect(tokenRequests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,195 @@
+import { createHash } from 'crypto';
+import { httpRequest, TransportOptions } from './transport';
+
+export type AuthMethod = 'apiKey' | 'oidcPassword' | 'oidcClientCredentials';
+
+export interface OidcCredentials extends TransportOptions {
+  weaviateUrl: string;
+  authMethod: AuthMethod;
+  username: string;
+  password: string;
+  // Defaults to the client id Weaviate advertises
+  oidcClientId: string;
+  clientSecret: string;
+  // Space-separated; defaults to the scopes Weaviate advertises
+  oidcScopes: string;
+}
+
+type TokenSet = {
+  accessToken: string;
+  refreshToken?: string;
+  // Epoch milliseconds
+  expiresAt: number;
+};
+
+type TokenEndpoint = {
+  url: string;
+  clientId: string;
+  scopes: string[];
+};
+
+// Refresh this long before the provider says the token expires
+const EXPIRY_SKEW_MS = 30_000;
+
+const endpoints = new Map<string, TokenEndpoint>();
+const tokens = new Map<string, TokenSet>();
+const pending = new Map<string, Promise<TokenSet>>();
+
+export function isOidc(method: AuthMethod): boolean {
+  return method === 'oidcPassword' || method === 'oidcClientCredentials';
+}
+
+// Profiles are identified by what they authenticate with, so editing the
+// credentials (or testing an unsaved profile) never reuses a stale token
+function cacheKey(credentials: OidcCredentials): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        credentials.weaviateUrl,
+        credentials.authMethod,
+        credentials.username,
+        credentials.password,
+        credentials.oidcClientId,
+        credentials.clientSecret,
+        credentials.oidcScopes,
+      ]),
+    )
+    .digest('hex');
+}
+
+async function getJson(url: URL, credentials: OidcCredentials): Promise<Record<string, unknown>> {
+  const response = await httpRequest(url, credentials, { method: 'GET', headers: { Accept: 'application/json' } });
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`OIDC discovery failed at ${url.href}: ${response.status} ${response.statusText}`);
+  }
+  return JSON.parse(response.body);
+}
+
+async function discoverTokenEndpoint(credentials: OidcCredentials): Promise<TokenEndpoint> {
+  // Weaviate points at the provider's own discovery document
+  const weaviateConfig = await getJson(
+    new URL(`${credentials.weaviateUrl.replace(/\/$/, '')}/v1/.well-known/openid-configuration`),
+    credentials,
+  );
+  if (typeof weaviateConfig.href !== 'string') {
+    throw new Error('This Weaviate instance does not have OIDC enabled');
+  }
+
+  const providerConfig = await getJson(new URL(weaviateConfig.href), credentials);
+  if (typeof providerConfig.token_endpoint !== 'string') {
+    throw new Error('The OIDC provider did not advertise a token endpoint');
+  }
+
+  return {
+    url: providerConfig.token_endpoint,
+    clientId: credentials.oidcClientId || String(weaviateConfig.clientId ?? ''),
+    scopes: credentials.oidcScopes.trim()
+      ? credentials.oidcScopes.trim().split(/\s+/)
+      : Array.isArray(weaviateConfig.scopes)
+        ? weaviateConfig.scopes.map(String)
+        : [],
+  };
+}
+
+async function requestToken(
+  endpoint: TokenEndpoint,
+  credentials: OidcCredentials,
+  params: Record<string, string>,
+): Promise<TokenSet> {
+  const body = new URLSearchParams({ client_id: endpoint.clientId, ...params });
+  if (credentials.authMethod === 'oidcClientCredentials') {
+    body.set('client_secret', credentials.clientSecret);
+  }
+
+  const response = await httpRequest(new URL(endpoint.url), credentials, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: body.toString(),
+  });
+
+  let payload: Record<string, unknown> = {};
+  try {
+    payload = JSON.parse(response.body);
+  } catch {
+    // Reported below
+  }
+
+  if (response.status < 200 || response.status >= 300 || typeof payload.access_token !== 'string') {
+    const reason = payload.error_description ?? payload.error ?? `${response.status} ${response.statusText}`;
+    throw new Error(`OIDC token request failed: ${reason}`);
+  }
+
+  return {
+    accessToken: payload.access_token,
+    refreshToken: typeof payload.refresh_token === 'string' ? payload.refresh_token : undefined,
+    expiresAt: Date.now() + Number(payload.expires_in ?? 300) * 1000,
+  };
+}
+
+async function authenticate(key: string, credentials: OidcCredentials, previous?: TokenSet): Promise<TokenSet> {
+  let endpoint = endpoints.get(key);
+  if (!endpoint) {
+    endpoint = await discoverTokenEndpoint(credentials);
+    endpoints.set(key, endpoint);
+  }
+
+  if (previous?.refreshToken) {
+    try {
+      return await requestToken(endpoint, credentials, {
+        grant_type: 'refresh_token',
+        refresh_token: previous.refreshToken,
+      });
+    } catch (error) {
+      // Refresh tokens expire too; fall back to the original grant
+      console.warn('OIDC token refresh failed, signing in again:', error);
+    }
+  }
+
+  const scopes = [...endpoint.scopes];
+  if (credentials.authMethod === 'oidcPassword') {
+    if (!scopes.includes('offline_access')) {
+      scopes.push('offline_access');
+    }
+    return requestToken(endpoint, credentials, {
+      grant_type: 'password',
+      username: credentials.username,
+      password: credentials.password,
+      scope: scopes.join(' '),
+    });
+  }
+
+  return requestToken(endpoint, credentials, {
+    grant_type: 'client_credentials',
+    ...(scopes.length > 0 ? { scope: scopes.join(' ') } : {}),
+  });
+}
+
+/**
+ * Returns a valid access token, refreshing it shortly before it expires.
+ * Pass `forceRefresh` after the server rejected the current token.
+ */
+export async function getAccessToken(credentials: OidcCredentials, forceRefresh = false): Promise<string> {
+  const key = cacheKey(credentials);
+  const cached = tokens.get(key);
+
+  if (cached && !forceRefresh && cached.expiresAt - EXPIRY_SKEW_MS > Date.now()) {
+    return cached.accessToken;
+  }
+
+  // Concurrent requests share one sign-in
+  let inFlight = pending.get(key);
+  if (!inFlight) {
+    inFlight = authenticate(key, credentials, cached).finally(() => pending.delete(key));
+    pending.set(key, inFlight);
+  }
+
+  try {
+    const tokenSet = await inFlight;
+    tokens.set(key, tokenSet);
+    return tokenSet.accessToken;
+  } catch (error) {
+    tokens.delete(key);
+    endpoints.delete(key);
+    throw error;
+  }
+}
@@ -1,16 +1,101 @@
 import { contextBridge, ipcRenderer } from 'electron';
 
+type ConnectionProfile = {
+  id: string;
+  name: string;
+  weaviateUrl: string;
+  apiKey: string;
+  hasApiKey: boolean;
+  authMethod: 'apiKey' | 'oidcPassword' | 'oidcClientCredentials';
+  username: string;
+  password: string;
+  hasPassword: boolean;
+  oidcClientId: string;
+  clientSecret: string;
+  hasClientSecret: boolean;
+  oidcScopes: string;
+  // Values stay in the main process; hasValue says one is saved
+  headers: { name: string; value: string; hasValue?: boolean }[];
+  color: string;
+  caFile: string;
+  clientCertFile: string;
+  clientKeyFile: string;
+  allowInsecureTls: boolean;
+  proxyUrl: string;
+};
+
+type Settings = {
+  profiles: ConnectionProfile[];
+  activeProfileId: string | null;
+};
+
+type SecretStorageStatus = {
+  backend: string;
+  encrypted: boolean;
+};
+
+type BridgeRequest = {
+  method: string;
+  path: string;
+  body?: string;
+  headers?: Record<string, string>;
+};
+
+type FileFilter = {
+  name: string;
+  extensions: string[];
+};
+
+type BridgeResponse = {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  error?: string;
+};
+
 contextBridge.exposeInMainWorld('electronAPI', {
   getSettings: () => ipcRenderer.invoke('get-settings'),
-  saveSettings: (settings: { weaviateUrl: string; apiKey: string }) =>
-    ipcRenderer.invoke('save-settings', settings),
+  saveSettings: (settings: Settings) => ipcRenderer.invoke('save-settings', settings),
+  setActiveProfile: (profileId: string) => ipcRenderer.invoke('set-active-profile', profileId),
+  getSecretStorageStatus: () => ipcRenderer.invoke('get-secret-storage-status'),
+  weaviateRequest: (profileId: string | null, request: BridgeRequest) =>
+    ipcRenderer.invoke('weaviate-request', profileId, request),
+  testConnection: (profile: ConnectionProfile) => ipcRenderer.invoke('test-connection', profile),
+  selectFile: (title: string) => ipcRenderer.invoke('select-file', title),
+  getCollectionPrefs: (profileId: string, collection: string) =>
+    ipcRenderer.invoke('get-collection-prefs', profileId, collection),
+  saveCollectionPrefs: (profileId: string, collection: string, prefs: Record<string, unknown>) =>
+    ipcRenderer.invoke('save-collection-prefs', profileId, collection, prefs),
+  createFile: (title: string, defaultPath: string, filters: FileFilter[]) =>
+    ipcRenderer.invoke('create-file', title, defaultPath, filters),
+  writeFile: (handle: string, chunk: string) => ipcRenderer.invoke('write-file', handle, chunk),
+  closeFile: (handle: string, discard: boolean) => ipcRenderer.invoke('close-file', handle, discard),
 });
 
 declare global {
   interface Window {
     electronAPI: {
-      getSettings: () => Promise<{ weaviateUrl: string; apiKey: string }>;
-      saveSettings: (settings: { weaviateUrl: string; apiKey: string }) => Promise<{ success: boolean }>;
+      getSettings: () => Promise<Settings>;
+      saveSettings: (settings: Settings) => Promise<{ success: boolean }>;
+      setActiveProfile: (profileId: string) => Promise<{ success: boolean }>;
+      getSecretStorageStatus: () => Promise<SecretStorageStatus>;
+      weaviateRequest: (profileId: string | null, request: BridgeRequest) => Promise<BridgeResponse>;
+      testConnection: (profile: ConnectionProfile) => Promise<BridgeResponse>;
+      selectFile: (title: string) => Promise<string | null>;
+      getCollectionPrefs: (profileId: string, collection: string) => Promise<Record<string, unknown>>;
+      saveCollectionPrefs: (
+        profileId: string,
+        collection: string,
+        prefs: Record<string, unknown>,
+      ) => Promise<{ success: boolean }>;
+      createFile: (
+        title: string,
+        defaultPath: string,
+        filters: FileFilter[],
+      ) => Promise<{ handle: string; filePath: string } | null>;
+      writeFile: (handle: string, chunk: string) => Promise<void>;
+      closeFile: (handle: string, discard: boolean) => Promise<void>;
     };
   }
 }
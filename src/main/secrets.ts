@@ -0,0 +1,82 @@
+import { safeStorage } from 'electron';
+
+/**
+ * A place to keep secrets (API keys, passwords) at rest. Values returned by
+ * `encrypt` are what ends up in the electron-store JSON file.
+ */
+export interface SecretBackend {
+  readonly name: string;
+  readonly encrypted: boolean;
+  encrypt(plainText: string): string;
+  decrypt(stored: string): string;
+}
+
+const SAFE_STORAGE_PREFIX = 'safe:';
+
+const safeStorageBackend: SecretBackend = {
+  name: 'safeStorage',
+  encrypted: true,
+  encrypt(plainText) {
+    if (!plainText) return '';
+    return SAFE_STORAGE_PREFIX + safeStorage.encryptString(plainText).toString('base64');
+  },
+  decrypt(stored) {
+    if (!isEncryptedSecret(stored)) return stored;
+    return safeStorage.decryptString(Buffer.from(stored.slice(SAFE_STORAGE_PREFIX.length), 'base64'));
+  },
+};
+
+// Used when the OS offers no keychain/keyring. Secrets stay readable on disk.
+const plaintextBackend: SecretBackend = {
+  name: 'plaintext',
+  encrypted: false,
+  encrypt(plainText) {
+    return plainText;
+  },
+  decrypt(stored) {
+    if (isEncryptedSecret(stored)) {
+      // Written while encryption was available; nothing we can do without it
+      console.warn('Found an encrypted secret but OS encryption is unavailable; ignoring it');
+      return '';
+    }
+    return stored;
+  },
+};
+
+let backendOverride: SecretBackend | null = null;
+let warnedAboutPlaintext = false;
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(SAFE_STORAGE_PREFIX);
+}
+
+/** Replace the backend picked by `getSecretBackend`, e.g. for a vault integration. */
+export function setSecretBackend(backend: SecretBackend | null) {
+  backendOverride = backend;
+}
+
+/**
+ * Must be called after the app is ready: safeStorage cannot tell whether
+ * encryption is available before that on every platform.
+ */
+export function getSecretBackend(): SecretBackend {
+  if (backendOverride) {
+    return backendOverride;
+  }
+
+  // On Linux without a keyring Chromium falls back to a hardcoded password,
+  // which is no better than plaintext
+  const usable =
+    safeStorage.isEncryptionAvailable() &&
+    (process.platform !== 'linux' || safeStorage.getSelectedStorageBackend() !== 'basic_text');
+
+  if (usable) {
+    return safeStorageBackend;
+  }
+
+  if (!warnedAboutPlaintext) {
+    console.warn('OS-level encryption is unavailable; secrets will be stored in plaintext');
+    warnedAboutPlaintext = true;
+  }
+  return plaintextBackend;
+}
@@ -0,0 +1,98 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as fs from 'fs';
+import { HttpProxyAgent } from 'http-proxy-agent';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+
+/** Per-profile settings that decide how requests leave the machine. */
+export interface TransportOptions {
+  caFile: string;
+  clientCertFile: string;
+  clientKeyFile: string;
+  allowInsecureTls: boolean;
+  proxyUrl: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+const REQUEST_TIMEOUT_MS = 60_000;
+
+function createProxyAgent(proxyUrl: string, secure: boolean): http.Agent | undefined {
+  if (!proxyUrl) return undefined;
+  if (proxyUrl.startsWith('socks')) {
+    return new SocksProxyAgent(proxyUrl);
+  }
+  return secure ? new HttpsProxyAgent(proxyUrl) : new HttpProxyAgent(proxyUrl);
+}
+
+function readOptionalFile(filePath: string): Buffer | undefined {
+  return filePath ? fs.readFileSync(filePath) : undefined;
+}
+
+/**
+ * Sends a single request with the profile's TLS and proxy settings. Rejects
+ * when no HTTP response was received (DNS, TLS, proxy, timeout).
+ */
+export function httpRequest(
+  url: URL,
+  transport: TransportOptions,
+  init: { method: string; headers: Record<string, string>; body?: string },
+): Promise<HttpResponse> {
+  return new Promise((resolve, reject) => {
+    const secure = url.protocol === 'https:';
+
+    let options: https.RequestOptions;
+    try {
+      // TLS options go on the request itself so proxy agents apply them to
+      // the tunnelled connection as well
+      options = {
+        method: init.method,
+        headers: init.headers,
+        agent: createProxyAgent(transport.proxyUrl, secure),
+        timeout: REQUEST_TIMEOUT_MS,
+        ca: readOptionalFile(transport.caFile),
+        cert: readOptionalFile(transport.clientCertFile),
+        key: readOptionalFile(transport.clientKeyFile),
+        rejectUnauthorized: !transport.allowInsecureTls,
+      };
+    } catch (error) {
+      reject(new Error(`Failed to read TLS files: ${error instanceof Error ? error.message : String(error)}`));
+      return;
+    }
+
+    const client = secure ? https : http;
+    const req = client.request(url, options, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => {
+        const headers: Record<string, string> = {};
+        for (const [key, value] of Object.entries(res.headers)) {
+          if (value !== undefined) {
+            headers[key] = Array.isArray(value) ? value.join(', ') : value;
+          }
+        }
+        resolve({
+          status: res.statusCode ?? 0,
+          statusText: res.statusMessage ?? '',
+          headers,
+          body: Buffer.concat(chunks).toString('utf8'),
+        });
+      });
+      res.on('error', reject);
+    });
+
+    req.on('timeout', () => req.destroy(new Error(`Request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`)));
+    req.on('error', reject);
+
+    if (init.body !== undefined) {
+      req.write(init.body);
+    }
+    req.end();
+  });
+}
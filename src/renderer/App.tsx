@@ -1,10 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { CollectionsList } from './components/CollectionsList';
 import { CollectionView } from './components/CollectionView';
 import { SearchView } from './components/SearchView';
 import { SettingsModal } from './components/SettingsModal';
-import { CollectionInfo, getCollections, initializeWeaviate } from './lib/weaviate';
-import { getSettings } from './lib/settings';
+import { ProfileSwitcher } from './components/ProfileSwitcher';
+import { ErrorDetails } from './components/ErrorDetails';
+import { CollectionInfo, WeaviateClient } from './lib/weaviate';
+import { WeaviateClientContext } from './lib/weaviate-context';
+import { getSettings, setActiveProfile, Settings } from './lib/settings';
 
 type View = 'collections' | 'collection' | 'search';
 type Tab = 'collections' | 'search';
@@ -15,41 +18,63 @@ export function App() {
   const [selectedCollection, setSelectedCollection] = useState<CollectionInfo | null>(null);
   const [collections, setCollections] = useState<CollectionInfo[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
-  const [hasConnection, setHasConnection] = useState(false);
+  const [settings, setSettings] = useState<Settings>({ profiles: [], activeProfileId: null });
+  // Bumped on every reload so counts from an earlier load (or profile) are dropped
+  const loadGeneration = useRef(0);
+
+  // A new client (and a fresh collection list) whenever the active profile changes or is edited
+  const client = useMemo(() => {
+    const activeProfile = settings.profiles.find((p) => p.id === settings.activeProfileId);
+    return activeProfile?.weaviateUrl ? new WeaviateClient(activeProfile) : null;
+  }, [settings]);
 
   useEffect(() => {
     checkConnection();
   }, []);
 
+  useEffect(() => {
+    if (client) {
+      loadCollections();
+    }
+  }, [client]);
+
   const checkConnection = async () => {
     try {
-      const settings = await getSettings();
-      if (settings.weaviateUrl) {
-        setHasConnection(true);
-        await initializeWeaviate();
-        await loadCollections();
-      } else {
-        setHasConnection(false);
+      const currentSettings = await getSettings();
+      setSettings(currentSettings);
+      const activeProfile = currentSettings.profiles.find((p) => p.id === currentSettings.activeProfileId);
+      if (!activeProfile?.weaviateUrl) {
         setLoading(false);
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to check connection');
+      setError(err instanceof Error ? err : 'Failed to check connection');
       setLoading(false);
     }
   };
 
   const loadCollections = async () => {
+    if (!client) return;
+    const generation = ++loadGeneration.current;
     try {
       setLoading(true);
       setError(null);
-      await initializeWeaviate();
-      const data = await getCollections();
+      const data = await client.getCollections();
+      if (generation !== loadGeneration.current) return;
       setCollections(data);
+      // Keep an open collection's properties current, e.g. after adding one
+      setSelectedCollection((prev) => (prev ? data.find((c) => c.name === prev.name) ?? prev : prev));
       setError(null);
+      // Show the list right away and fill in counts as they arrive. Multi-tenant
+      // collections can only be counted per tenant.
+      const countable = data.filter((c) => !c.multiTenancy).map((c) => c.name);
+      client.getObjectCounts(countable, (name, result) => {
+        if (generation !== loadGeneration.current) return;
+        setCollections((prev) => prev.map((c) => (c.name === name ? { ...c, ...result } : c)));
+      });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load collections');
+      setError(err instanceof Error ? err : 'Failed to load collections');
       console.error('Error loading collections:', err);
     } finally {
       setLoading(false);
@@ -83,12 +108,21 @@ export function App() {
     }
   };
 
+  const handleProfileSwitch = async (profileId: string) => {
+    await setActiveProfile(profileId);
+    setView('collections');
+    setActiveTab('collections');
+    setSelectedCollection(null);
+    setCollections([]);
+    await checkConnection();
+  };
+
   const handleSettingsSave = () => {
     setSettingsOpen(false);
     checkConnection();
   };
 
-  if (!hasConnection) {
+  if (!client) {
     return (
       <div className="min-h-screen bg-gray-50 p-8">
         <div className="max-w-4xl mx-auto">
@@ -97,6 +131,16 @@ export function App() {
             <p className="text-gray-600 mb-6">
               Please configure your Weaviate connection to get started.
             </p>
+            {/* Another saved profile may be complete; let the user switch to it */}
+            {settings.profiles.length > 0 && (
+              <div className="flex justify-center mb-6">
+                <ProfileSwitcher
+                  profiles={settings.profiles}
+                  activeProfileId={settings.activeProfileId}
+                  onSwitch={handleProfileSwitch}
+                />
+              </div>
+            )}
             <button
               onClick={() => setSettingsOpen(true)}
               className="px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700"
@@ -115,90 +159,101 @@ export function App() {
   }
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      <div className="bg-white shadow">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <div className="flex justify-between items-center mb-4">
-            <h1 className="text-2xl font-bold text-gray-900">Weaviate Collections Explorer</h1>
-            <button
-              onClick={() => setSettingsOpen(true)}
-              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
-            >
-              Settings
-            </button>
-          </div>
-          
-          {/* Navigation Tabs */}
-          <div className="flex gap-2 border-b border-gray-200">
-            <button
-              onClick={() => handleTabChange('collections')}
-              className={`px-4 py-2 font-medium text-sm border-b-2 transition-colors ${
-                activeTab === 'collections'
-                  ? 'border-blue-600 text-blue-600'
-                  : 'border-transparent text-gray-700 hover:text-gray-900'
-              }`}
-            >
-              Collections
-            </button>
-            <button
-              onClick={() => handleTabChange('search')}
-              className={`px-4 py-2 font-medium text-sm border-b-2 transition-colors ${
-                activeTab === 'search'
-                  ? 'border-blue-600 text-blue-600'
-                  : 'border-transparent text-gray-700 hover:text-gray-900'
-              }`}
-            >
-              Search
-            </button>
+    <WeaviateClientContext.Provider value={client}>
+      <div className="min-h-screen bg-gray-50">
+        <div className="bg-white shadow">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+            <div className="flex justify-between items-center mb-4">
+              <h1 className="text-2xl font-bold text-gray-900">Weaviate Collections Explorer</h1>
+              <div className="flex items-center gap-2">
+                <ProfileSwitcher
+                  profiles={settings.profiles}
+                  activeProfileId={settings.activeProfileId}
+                  onSwitch={handleProfileSwitch}
+                />
+                <button
+                  onClick={() => setSettingsOpen(true)}
+                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+                >
+                  Settings
+                </button>
+              </div>
+            </div>
+            
+            {/* Navigation Tabs */}
+            <div className="flex gap-2 border-b border-gray-200">
+              <button
+                onClick={() => handleTabChange('collections')}
+                className={`px-4 py-2 font-medium text-sm border-b-2 transition-colors ${
+                  activeTab === 'collections'
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-700 hover:text-gray-900'
+                }`}
+              >
+                Collections
+              </button>
+              <button
+                onClick={() => handleTabChange('search')}
+                className={`px-4 py-2 font-medium text-sm border-b-2 transition-colors ${
+                  activeTab === 'search'
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-700 hover:text-gray-900'
+                }`}
+              >
+                Search
+              </button>
+            </div>
           </div>
         </div>
-      </div>
 
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {error && (
-          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded">
-            <p className="text-red-700">{error}</p>
-            <button
-              onClick={loadCollections}
-              className="mt-2 text-blue-600 hover:text-blue-800"
-            >
-              Retry
-            </button>
-          </div>
-        )}
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {error && (
+            <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded">
+              <ErrorDetails error={error} />
+              <button
+                onClick={loadCollections}
+                className="mt-2 text-blue-600 hover:text-blue-800"
+              >
+                Retry
+              </button>
+            </div>
+          )}
 
-        {view === 'search' && <SearchView />}
+          {view === 'search' && <SearchView key={settings.activeProfileId} />}
 
-        {view === 'collections' && (
-          <>
-            {loading ? (
-              <div className="flex items-center justify-center h-64">
-                <div className="text-lg">Loading collections...</div>
-              </div>
-            ) : (
-              <CollectionsList
-                collections={collections}
-                onDeleteSuccess={loadCollections}
-                onCollectionClick={handleCollectionClick}
-              />
-            )}
-          </>
-        )}
-
-        {view === 'collection' && selectedCollection && (
-          <CollectionView
-            collectionName={selectedCollection.name}
-            properties={selectedCollection.properties}
-            onBack={handleBack}
-          />
-        )}
-      </div>
+          {view === 'collections' && (
+            <>
+              {loading ? (
+                <div className="flex items-center justify-center h-64">
+                  <div className="text-lg">Loading collections...</div>
+                </div>
+              ) : (
+                <CollectionsList
+                  collections={collections}
+                  onDeleteSuccess={loadCollections}
+                  onCollectionClick={handleCollectionClick}
+                />
+              )}
+            </>
+          )}
 
-      <SettingsModal
-        isOpen={settingsOpen}
-        onClose={() => setSettingsOpen(false)}
-        onSave={handleSettingsSave}
-      />
-    </div>
+          {view === 'collection' && selectedCollection && (
+            <CollectionView
+              collectionName={selectedCollection.name}
+              properties={selectedCollection.properties}
+              multiTenancy={selectedCollection.multiTenancy}
+              onBack={handleBack}
+              onSchemaChange={loadCollections}
+            />
+          )}
+        </div>
+
+        <SettingsModal
+          isOpen={settingsOpen}
+          onClose={() => setSettingsOpen(false)}
+          onSave={handleSettingsSave}
+        />
+      </div>
+    </WeaviateClientContext.Provider>
   );
 }
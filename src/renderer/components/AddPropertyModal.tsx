@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import { cleanProperties, PropertySchema } from '../lib/weaviate';
+import { useWeaviateClient } from '../lib/weaviate-context';
+import { emptyProperty, PropertyEditor } from './PropertyEditor';
+import { ErrorDetails } from './ErrorDetails';
+
+interface AddPropertyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  collectionName: string;
+  existingProperties: Array<{ name: string }>;
+}
+
+export function AddPropertyModal({
+  isOpen,
+  onClose,
+  onSuccess,
+  collectionName,
+  existingProperties,
+}: AddPropertyModalProps) {
+  const client = useWeaviateClient();
+  const [property, setProperty] = useState<PropertySchema>(emptyProperty());
+  const [vectorizer, setVectorizer] = useState<string | undefined>(undefined);
+  const [collections, setCollections] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | Error | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setProperty(emptyProperty());
+    setError(null);
+    client
+      .getSchema()
+      .then((classes) => {
+        setVectorizer(classes.find((c) => c.class === collectionName)?.vectorizer);
+        setCollections(classes.map((c) => c.class));
+      })
+      .catch((err) => console.error('Error loading collections:', err));
+  }, [isOpen, client, collectionName]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      const [cleaned] = cleanProperties([property], existingProperties);
+      await client.addProperty(collectionName, cleaned);
+      onSuccess();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err : 'Failed to add property');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 text-gray-900">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-4">Add Property to {collectionName}</h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <PropertyEditor
+            property={property}
+            onChange={setProperty}
+            hasVectorizer={!!vectorizer && vectorizer !== 'none'}
+            referenceTargets={collections}
+          />
+
+          <p className="text-sm text-gray-600">
+            Existing objects get no value for the new property. Its type and index options can&apos;t be changed later.
+          </p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              <ErrorDetails error={error} />
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading || !property.name.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? 'Adding...' : 'Add Property'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
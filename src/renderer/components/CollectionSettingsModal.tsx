@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react';
+import { WeaviateClass } from '../lib/weaviate';
+import { useWeaviateClient } from '../lib/weaviate-context';
+import { ErrorDetails } from './ErrorDetails';
+
+interface CollectionSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  collectionName: string;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function toNumber(value: string, label: string, integer = false): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed) || (integer && !Number.isInteger(parsed))) {
+    throw new Error(`${label} must be ${integer ? 'a whole number' : 'a number'}`);
+  }
+  return parsed;
+}
+
+function wordList(value: string): string[] {
+  return value
+    .split(',')
+    .map((word) => word.trim())
+    .filter(Boolean);
+}
+
+/** Edits the settings Weaviate lets you change after a collection is created. */
+export function CollectionSettingsModal({ isOpen, onClose, onSuccess, collectionName }: CollectionSettingsModalProps) {
+  const client = useWeaviateClient();
+  const [config, setConfig] = useState<WeaviateClass | null>(null);
+  const [description, setDescription] = useState('');
+  const [bm25K1, setBm25K1] = useState('');
+  const [bm25B, setBm25B] = useState('');
+  const [stopwordsPreset, setStopwordsPreset] = useState('en');
+  const [stopwordAdditions, setStopwordAdditions] = useState('');
+  const [stopwordRemovals, setStopwordRemovals] = useState('');
+  const [replicationFactor, setReplicationFactor] = useState('');
+  const [ef, setEf] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | Error | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setConfig(null);
+    setError(null);
+    client
+      .getCollectionConfig(collectionName)
+      .then((current) => {
+        if (cancelled) return;
+        const inverted = current.invertedIndexConfig;
+        setConfig(current);
+        setDescription(current.description ?? '');
+        setBm25K1(String(inverted?.bm25?.k1 ?? 1.2));
+        setBm25B(String(inverted?.bm25?.b ?? 0.75));
+        setStopwordsPreset(inverted?.stopwords?.preset ?? 'en');
+        setStopwordAdditions((inverted?.stopwords?.additions ?? []).join(', '));
+        setStopwordRemovals((inverted?.stopwords?.removals ?? []).join(', '));
+        setReplicationFactor(String(current.replicationConfig?.factor ?? 1));
+        const hnswConfig =
+          current.vectorIndexType === 'dynamic' ? current.vectorIndexConfig?.hnsw : current.vectorIndexConfig;
+        setEf(String(hnswConfig?.ef ?? -1));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err : 'Failed to load collection settings');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, client, collectionName]);
+
+  if (!isOpen) return null;
+
+  // Named vectors each have their own index settings under vectorConfig; the
+  // class-level vectorIndexConfig must stay as it is for them
+  const hasHnsw = !!config && !config.vectorConfig && config.vectorIndexType !== 'flat';
+
+  // A dynamic index keeps its hnsw settings nested under `hnsw`
+  const withEf = (vectorIndexConfig: WeaviateClass['vectorIndexConfig']): WeaviateClass['vectorIndexConfig'] => {
+    const value = toNumber(ef, 'ef', true);
+    return config?.vectorIndexType === 'dynamic'
+      ? { ...vectorIndexConfig, hnsw: { ...vectorIndexConfig?.hnsw, ef: value } }
+      : { ...vectorIndexConfig, ef: value };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!config) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Everything else in the definition goes back unchanged
+      const updated: WeaviateClass = {
+        ...config,
+        description: description.trim() || undefined,
+        invertedIndexConfig: {
+          ...config.invertedIndexConfig,
+          bm25: { k1: toNumber(bm25K1, 'BM25 k1'), b: toNumber(bm25B, 'BM25 b') },
+          stopwords: {
+            preset: stopwordsPreset,
+            additions: wordList(stopwordAdditions),
+            removals: wordList(stopwordRemovals),
+          },
+        },
+        replicationConfig: {
+          ...config.replicationConfig,
+          factor: toNumber(replicationFactor, 'Replication factor', true),
+        },
+        vectorIndexConfig: hasHnsw ? withEf(config.vectorIndexConfig) : config.vectorIndexConfig,
+      };
+
+      await client.updateCollection(updated);
+      onSuccess();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err : 'Failed to update collection');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 text-gray-900">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-4">{collectionName} Settings</h2>
+
+        {!config && !error && <div className="text-center py-8">Loading settings...</div>}
+
+        {config && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="collectionDescription" className="block text-sm font-medium text-gray-700 mb-1">
+                Description
+              </label>
+              <textarea
+                id="collectionDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block text-sm font-medium text-gray-700">
+                BM25 k1
+                <input type="number" step="any" value={bm25K1} onChange={(e) => setBm25K1(e.target.value)} className={`${inputClass} mt-1`} />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                BM25 b
+                <input type="number" step="any" value={bm25B} onChange={(e) => setBm25B(e.target.value)} className={`${inputClass} mt-1`} />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Stopwords preset
+                <select value={stopwordsPreset} onChange={(e) => setStopwordsPreset(e.target.value)} className={`${inputClass} mt-1`}>
+                  <option value="en">en</option>
+                  <option value="none">none</option>
+                </select>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Replication factor
+                <input
+                  type="number"
+                  min="1"
+                  value={replicationFactor}
+                  onChange={(e) => setReplicationFactor(e.target.value)}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Extra stopwords
+                <input
+                  type="text"
+                  value={stopwordAdditions}
+                  onChange={(e) => setStopwordAdditions(e.target.value)}
+                  placeholder="comma, separated"
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Not stopwords
+                <input
+                  type="text"
+                  value={stopwordRemovals}
+                  onChange={(e) => setStopwordRemovals(e.target.value)}
+                  placeholder="comma, separated"
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              {hasHnsw && (
+                <label className="block text-sm font-medium text-gray-700">
+                  ef (-1 for dynamic)
+                  <input type="number" value={ef} onChange={(e) => setEf(e.target.value)} className={`${inputClass} mt-1`} />
+                </label>
+              )}
+            </div>
+
+            <p className="text-sm text-gray-600">
+              Vectorizer, index type, distance metric and property types are fixed once a collection exists.
+            </p>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                <ErrorDetails error={error} />
+              </div>
+            )}
+
+            <div className="flex gap-2 justify-end">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {!config && error && (
+          <div className="space-y-4">
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              <ErrorDetails error={error} />
+            </div>
+            <div className="flex justify-end">
+              <button onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300">
+                Close
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
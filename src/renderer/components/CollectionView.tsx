@@ -1,9 +1,32 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { DynamicTable, ColumnDef } from './DynamicTable';
-import { CollectionData, getCollectionData, deleteObjects, initializeWeaviate } from '../lib/weaviate';
+import {
+  CollectionData,
+  isObjectType,
+  isReferenceType,
+  NestedProperty,
+  isSortable,
+  SORTABLE_METADATA,
+  SortConfig,
+} from '../lib/weaviate';
+import { createGroup, FilterGroup, WhereFilter } from '../lib/filters';
+import { DEFAULT_TABLE_LAYOUT, getCollectionPrefs, saveCollectionPrefs, TableLayout } from '../lib/preferences';
+import { useWeaviateClient, WeaviateClientContext } from '../lib/weaviate-context';
 import { DeleteObjectsModal } from './DeleteObjectsModal';
 import { CreateObjectModal } from './CreateObjectModal';
 import { EditObjectModal } from './EditObjectModal';
+import { ObjectDetailDrawer } from './ObjectDetailDrawer';
+import { ErrorDetails } from './ErrorDetails';
+import { FilterPanel } from './FilterPanel';
+import { ExportModal } from './ExportModal';
+import { ImportModal } from './ImportModal';
+import { StatisticsPanel } from './StatisticsPanel';
+import { AddPropertyModal } from './AddPropertyModal';
+import { ObjectTree } from './ObjectTree';
+import { TypedValue } from './TypedValue';
+import { ReferenceLinks } from './ReferenceLinks';
+import { TenantSelect } from './TenantSelect';
+import { TenantsModal } from './TenantsModal';
 
 interface CollectionViewProps {
   collectionName: string;
@@ -11,24 +34,61 @@ interface CollectionViewProps {
     name: string;
     dataType: string[];
     description?: string;
+    nestedProperties?: NestedProperty[];
   }>;
+  // Every read and write goes to the tenant picked in the header
+  multiTenancy?: boolean;
   onBack: () => void;
+  // The collection's properties changed; reload them
+  onSchemaChange: () => void;
 }
 
-export function CollectionView({ collectionName, properties, onBack }: CollectionViewProps) {
+export function CollectionView({
+  collectionName,
+  properties,
+  multiTenancy,
+  onBack,
+  onSchemaChange,
+}: CollectionViewProps) {
+  const rootClient = useWeaviateClient();
+  const [tenant, setTenant] = useState('');
+  const [tenantsOpen, setTenantsOpen] = useState(false);
+  // Bumped when the tenants modal closes so the selector reloads them
+  const [tenantsVersion, setTenantsVersion] = useState(0);
+  const client = useMemo(() => rootClient.withTenant(tenant || undefined), [rootClient, tenant]);
+  const awaitingTenant = !!multiTenancy && !tenant;
   const [data, setData] = useState<CollectionData[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [sortConfig, setSortConfig] = useState<{ property: string; order: 'asc' | 'desc' } | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
+  const [sortConfig, setSortConfig] = useState<SortConfig>([]);
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
+  // Delete the selected rows, or everything matching the current filter
+  const [deleteScope, setDeleteScope] = useState<'selection' | 'filter'>('selection');
   const [createModalOpen, setCreateModalOpen] = useState(false);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [editingObjectId, setEditingObjectId] = useState<string | null>(null);
-  const [offset, setOffset] = useState(0);
+  const [drawerOpen, setDrawerOpen] = useState(false);
+  // A referenced object, shown in a read-only drawer over the table's
+  const [referenceTarget, setReferenceTarget] = useState<{ className: string; id: string } | null>(null);
   const [canLoadMore, setCanLoadMore] = useState(true);
+  const [filterOpen, setFilterOpen] = useState(false);
+  // What's being edited in the panel vs. what the table currently shows
+  const [filterDraft, setFilterDraft] = useState<FilterGroup>(() => createGroup());
+  const [where, setWhere] = useState<WhereFilter | null>(null);
+  const [matchingCount, setMatchingCount] = useState<number | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [statisticsOpen, setStatisticsOpen] = useState(false);
+  const [addPropertyOpen, setAddPropertyOpen] = useState(false);
+  const [collectionCount, setCollectionCount] = useState<number | null>(null);
+  // null until the saved layout has loaded, so hidden columns are never fetched
+  const [tableLayout, setTableLayout] = useState<TableLayout | null>(null);
+  const saveLayoutTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // The current walk through the collection; "Load More" pulls its next page
+  const pagesRef = useRef<AsyncGenerator<CollectionData[], void, undefined> | null>(null);
   const topRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
 
@@ -42,45 +102,92 @@ export function CollectionView({ collectionName, properties, onBack }: Collectio
     topRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  useEffect(() => {
+    getCollectionPrefs(client.profileId, collectionName)
+      .then((prefs) => setTableLayout(prefs.tableLayout ?? DEFAULT_TABLE_LAYOUT))
+      .catch((err) => {
+        console.error('Error loading table layout:', err);
+        setTableLayout(DEFAULT_TABLE_LAYOUT);
+      });
+    // Not on `client`: switching tenants rebuilds it, and the layout is per collection, not per tenant
+  }, [client.profileId, collectionName]);
+
+  const handleLayoutChange = (layout: TableLayout) => {
+    setTableLayout(layout);
+    // Resizing fires on every mouse move; only store where it ends up
+    clearTimeout(saveLayoutTimer.current);
+    saveLayoutTimer.current = setTimeout(() => {
+      saveCollectionPrefs(client.profileId, collectionName, { tableLayout: layout }).catch((err) =>
+        console.error('Error saving table layout:', err),
+      );
+    }, 500);
+  };
+
+  // Hidden columns are left out of the query entirely
+  const hiddenColumns = tableLayout?.hidden.join('\n');
+  // Changes when a property is added, so the new column gets fetched
+  const propertyNames = properties.map((p) => p.name).join('\n');
+  const fetchedProperties = useMemo(
+    () => properties.filter((p) => !tableLayout?.hidden.includes(p.name)),
+    [properties, hiddenColumns],
+  );
+
   const fetchData = useCallback(
     async (loadMore = false) => {
-      if (!loadMore) {
+      if (!loadMore || !pagesRef.current) {
         setLoading(true);
         setData([]);
-        setOffset(0);
+        pagesRef.current = client.iterateObjects(collectionName, fetchedProperties, {
+          sort: sortConfig,
+          where,
+          pageSize: OBJECTS_PER_PAGE,
+        });
       } else {
         setLoadingMore(true);
       }
 
+      const pages = pagesRef.current;
       try {
-        await initializeWeaviate();
-        const currentOffset = loadMore ? offset : 0;
-        const newData = await getCollectionData(
-          collectionName,
-          properties,
-          sortConfig || undefined,
-          OBJECTS_PER_PAGE,
-          currentOffset,
-        );
+        const { value, done } = await pages.next();
+        // A newer fetch (e.g. a sort change) replaced this walk
+        if (pages !== pagesRef.current) return;
+        const newData = value ?? [];
 
         setData((prevData) => (loadMore ? [...prevData, ...newData] : newData));
-        setOffset(currentOffset + newData.length);
-        setCanLoadMore(newData.length === OBJECTS_PER_PAGE);
+        setCanLoadMore(!done && newData.length === OBJECTS_PER_PAGE);
         setError(null);
       } catch (err) {
         console.error('Error in CollectionView:', err);
-        setError(err instanceof Error ? err.message : 'Failed to fetch data');
+        setError(err instanceof Error ? err : 'Failed to fetch data');
       } finally {
-        setLoading(false);
-        setLoadingMore(false);
+        if (pages === pagesRef.current) {
+          setLoading(false);
+          setLoadingMore(false);
+        }
       }
     },
-    [collectionName, sortConfig, offset, properties],
+    [client, collectionName, sortConfig, where, fetchedProperties],
   );
 
   useEffect(() => {
+    if (hiddenColumns === undefined || awaitingTenant) return;
     fetchData(false);
-  }, [sortConfig]);
+  }, [sortConfig, where, hiddenColumns, propertyNames, tenant]);
+
+  useEffect(() => {
+    setMatchingCount(null);
+    if (!where || awaitingTenant) return;
+    let cancelled = false;
+    client
+      .getObjectCount(collectionName, where)
+      .then((count) => {
+        if (!cancelled) setMatchingCount(count);
+      })
+      .catch((err) => console.error('Error counting matching objects:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [client, collectionName, where]);
 
   const handleLoadMore = () => {
     fetchData(true);
@@ -101,6 +208,7 @@ export function CollectionView({ collectionName, properties, onBack }: Collectio
   const handleDeleteClick = () => {
     if (selectionMode) {
       if (selectedIds.size > 0) {
+        setDeleteScope('selection');
         setDeleteModalOpen(true);
       } else {
         setSelectionMode(false);
@@ -110,20 +218,19 @@ export function CollectionView({ collectionName, properties, onBack }: Collectio
     }
   };
 
-  const handleDeleteConfirm = async () => {
-    try {
-      setLoading(true);
-      await initializeWeaviate();
-      await deleteObjects(collectionName, Array.from(selectedIds));
-      setDeleteModalOpen(false);
-      setSelectionMode(false);
-      setSelectedIds(new Set());
+  const handleDelete = (dryRun: boolean) =>
+    deleteScope === 'filter' && where
+      ? client.deleteObjectsWhere(collectionName, where, dryRun)
+      : client.deleteObjects(collectionName, Array.from(selectedIds), dryRun);
+
+  const handleDeleted = async () => {
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+    if (where) {
+      // A new filter object refetches the table and the matching count
+      setWhere({ ...where });
+    } else {
       await fetchData();
-    } catch (err) {
-      console.error('Error deleting objects:', err);
-      setError(err instanceof Error ? err.message : 'Failed to delete objects');
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -132,13 +239,73 @@ export function CollectionView({ collectionName, properties, onBack }: Collectio
     setSelectedIds(new Set());
   };
 
+  // Selected ids belong to the tenant they were picked in
+  const handleTenantChange = (next: string) => {
+    handleCancelSelection();
+    setTenant(next);
+  };
+
+  const tenantControls = multiTenancy && (
+    <div className="flex items-center gap-2">
+      <TenantSelect
+        key={tenantsVersion}
+        collectionName={collectionName}
+        value={tenant}
+        onChange={handleTenantChange}
+      />
+      <button onClick={() => setTenantsOpen(true)} className="text-sm text-blue-600 hover:text-blue-800">
+        Manage
+      </button>
+      <TenantsModal
+        isOpen={tenantsOpen}
+        onClose={() => {
+          setTenantsOpen(false);
+          setTenantsVersion((v) => v + 1);
+        }}
+        collectionName={collectionName}
+      />
+    </div>
+  );
+
+  if (awaitingTenant) {
+    return (
+      <div className="space-y-4 text-gray-900">
+        <div className="flex items-center gap-4">
+          <button onClick={onBack} className="text-blue-600 hover:text-blue-800">
+            ← Back to Collections
+          </button>
+          {tenantControls}
+        </div>
+        <p className="text-gray-600">
+          {collectionName} is multi-tenant. Pick a tenant to see its objects, or add one under Manage.
+        </p>
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="p-4 bg-red-50 border border-red-200 rounded">
-        <p className="text-red-700">{error}</p>
-        <button onClick={onBack} className="mt-2 text-blue-600 hover:text-blue-800">
-          ← Back to Collections
-        </button>
+        <ErrorDetails error={error} />
+        <div className="flex items-center gap-4">
+          <button onClick={onBack} className="mt-2 text-blue-600 hover:text-blue-800">
+            ← Back to Collections
+          </button>
+          {/* e.g. the tenant is COLD; another one may load */}
+          {tenantControls && <div className="mt-2">{tenantControls}</div>}
+          {where && (
+            <button
+              onClick={() => {
+                setError(null);
+                setFilterOpen(true);
+                setWhere(null);
+              }}
+              className="mt-2 text-blue-600 hover:text-blue-800"
+            >
+              Clear filter
+            </button>
+          )}
+        </div>
       </div>
     );
   }
@@ -151,176 +318,357 @@ export function CollectionView({ collectionName, properties, onBack }: Collectio
     );
   }
 
-  const columns: ColumnDef[] = properties.map((prop) => ({
-    key: prop.name,
-    label: prop.name,
-    dataType: prop.dataType,
-    render: (value: unknown) => {
-      if (Array.isArray(value)) {
-        return value.join(', ');
-      }
-      return String(value);
-    },
-  }));
+  const renderPropertyValue = (dataType: string[], value: unknown) => {
+    if (isReferenceType(dataType[0] ?? '')) {
+      return <ReferenceLinks value={value} onOpen={(id) => openReference(dataType, id)} />;
+    }
+    if (isObjectType(dataType[0] ?? '')) {
+      return Array.isArray(value) ? (
+        value.map((item, index) => <ObjectTree key={index} value={item} />)
+      ) : (
+        <ObjectTree value={value} />
+      );
+    }
+    return <TypedValue dataType={dataType[0]} value={value} />;
+  };
 
-  const handleSort = (columnKey: string) => {
-    const column = columns.find((col) => col.key === columnKey);
-    if (!column?.dataType?.includes('date')) return;
+  const columns: ColumnDef[] = [
+    ...properties.map((prop) => ({
+      key: prop.name,
+      label: prop.name,
+      dataType: prop.dataType,
+      sortable: isSortable(prop.dataType[0]),
+      render: (value: unknown) => renderPropertyValue(prop.dataType, value),
+    })),
+    ...Object.entries(SORTABLE_METADATA).map(([key, label]) => ({
+      key,
+      label,
+      sortable: true,
+      render: (_value: unknown, row?: CollectionData) => {
+        // _creationTimeUnix comes back as _additional.creationTimeUnix, in milliseconds
+        const additional = row?._additional as Record<string, string> | undefined;
+        const millis = additional?.[key.slice(1)];
+        return millis ? new Date(Number(millis)).toLocaleString() : '';
+      },
+    })),
+  ];
 
-    setSortConfig((current) => {
-      if (current?.property === columnKey) {
-        if (current.order === 'desc') {
-          return { property: columnKey, order: 'asc' };
-        }
-        return null;
+  // Click sorts by one column (descending, ascending, off); shift-click does
+  // the same for one key of a multi-key sort
+  const handleSort = (columnKey: string, additive: boolean) => {
+    setSortConfig((current): SortConfig => {
+      const keys = additive ? current : current.filter((s) => s.property === columnKey);
+      const existing = keys.find((s) => s.property === columnKey);
+
+      if (!existing) {
+        return [...keys, { property: columnKey, order: 'desc' }];
       }
-      return { property: columnKey, order: 'desc' };
+      if (existing.order === 'desc') {
+        return keys.map((s) => (s.property === columnKey ? { ...s, order: 'asc' } : s));
+      }
+      return keys.filter((s) => s.property !== columnKey);
     });
   };
 
+  // With several target collections, the id alone doesn't say which one to open
+  const openReference = async (targets: string[], id: string) => {
+    try {
+      const className = await client.findReferenceTarget(targets, id);
+      setReferenceTarget({ className: className ?? targets[0], id });
+    } catch (err) {
+      console.error('Error opening reference:', err);
+    }
+  };
+
   const handleRowClick = (row: CollectionData) => {
     const id = (row._additional as { id?: string })?.id;
     if (id) {
       setEditingObjectId(id);
-      setEditModalOpen(true);
+      setDrawerOpen(true);
     }
   };
 
   const handleRefresh = () => {
-    setOffset(0);
     setData([]);
     fetchData(false);
   };
 
+  const handleExportClick = () => {
+    setExportOpen(true);
+    if (!where) {
+      setCollectionCount(null);
+      client
+        .getObjectCount(collectionName)
+        .then(setCollectionCount)
+        .catch((err) => console.error('Error counting objects:', err));
+    }
+  };
+
   return (
-    <div className="space-y-4 text-gray-900">
-      <div className="flex justify-between items-center">
-        <button onClick={onBack} className="text-blue-600 hover:text-blue-800">
-          ← Back to Collections
-        </button>
-        <div className="flex gap-2">
-          <button
-            onClick={handleRefresh}
-            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 flex items-center gap-2"
-            title="Refresh objects list"
-          >
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              className="h-4 w-4"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
+    <WeaviateClientContext.Provider value={client}>
+      <div className="space-y-4 text-gray-900">
+        <div className="flex justify-between items-start gap-4">
+          <div className="flex items-center gap-4">
+            <button onClick={onBack} className="text-blue-600 hover:text-blue-800">
+              ← Back to Collections
+            </button>
+            {tenantControls}
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            <button
+              onClick={() => setFilterOpen((open) => !open)}
+              className={`px-4 py-2 rounded-md ${
+                where ? 'bg-blue-100 text-blue-700 hover:bg-blue-200' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
-              />
-            </svg>
-            Refresh
-          </button>
-          <button
-            onClick={() => setCreateModalOpen(true)}
-            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
-          >
-            + Create Object
-          </button>
-          <button
-            onClick={handleDeleteClick}
-            className={`px-4 py-2 rounded-md ${
-              selectionMode && selectedIds.size > 0
-                ? 'bg-red-600 hover:bg-red-700 text-white'
-                : 'bg-red-100 text-red-700 hover:bg-red-200'
-            }`}
-          >
-            {selectionMode ? `Delete (${selectedIds.size})` : 'Delete'}
-          </button>
-          {selectionMode && (
+              {where ? 'Filter (on)' : 'Filter'}
+            </button>
+            <button
+              onClick={() => setStatisticsOpen((open) => !open)}
+              className={`px-4 py-2 rounded-md ${
+                statisticsOpen ? 'bg-blue-100 text-blue-700 hover:bg-blue-200' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              Statistics
+            </button>
             <button
-              onClick={handleCancelSelection}
+              onClick={handleRefresh}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 flex items-center gap-2"
+              title="Refresh objects list"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-4 w-4"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                />
+              </svg>
+              Refresh
+            </button>
+            <button
+              onClick={handleExportClick}
               className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
             >
-              Cancel
+              Export
             </button>
-          )}
+            <button
+              onClick={() => setImportOpen(true)}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              Import
+            </button>
+            <button
+              onClick={() => setAddPropertyOpen(true)}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              + Add Property
+            </button>
+            <button
+              onClick={() => setCreateModalOpen(true)}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
+            >
+              + Create Object
+            </button>
+            <button
+              onClick={handleDeleteClick}
+              className={`px-4 py-2 rounded-md ${
+                selectionMode && selectedIds.size > 0
+                  ? 'bg-red-600 hover:bg-red-700 text-white'
+                  : 'bg-red-100 text-red-700 hover:bg-red-200'
+              }`}
+            >
+              {selectionMode ? `Delete (${selectedIds.size})` : 'Delete'}
+            </button>
+            {where && !selectionMode && (
+              <button
+                onClick={() => {
+                  setDeleteScope('filter');
+                  setDeleteModalOpen(true);
+                }}
+                className="px-4 py-2 rounded-md bg-red-100 text-red-700 hover:bg-red-200"
+              >
+                Delete Matching
+              </button>
+            )}
+            {selectionMode && (
+              <button
+                onClick={handleCancelSelection}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
         </div>
-      </div>
 
-      <div ref={topRef}></div>
-
-      <DynamicTable
-        columns={columns}
-        data={data}
-        loading={loading}
-        error={error || undefined}
-        onSort={handleSort}
-        sortConfig={
-          sortConfig
-            ? {
-                key: sortConfig.property,
-                direction: sortConfig.order,
-              }
-            : null
-        }
-        selectionMode={selectionMode}
-        selectedIds={selectedIds}
-        onSelect={handleSelect}
-        onRowClick={handleRowClick}
-      />
+        {filterOpen && (
+          <FilterPanel
+            collectionName={collectionName}
+            properties={properties}
+            filter={filterDraft}
+            onChange={setFilterDraft}
+            onApply={setWhere}
+          />
+        )}
 
-      <div ref={bottomRef}></div>
+        {where && (
+          <p className="text-sm text-gray-600">
+            {matchingCount === null
+              ? 'Counting matching objects…'
+              : `${matchingCount.toLocaleString()} matching ${matchingCount === 1 ? 'object' : 'objects'}`}
+          </p>
+        )}
 
-      {canLoadMore && (
-        <div className="flex justify-center gap-4">
-          <button
-            onClick={handleLoadMore}
-            disabled={loadingMore}
-            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
-          >
-            {loadingMore ? 'Loading...' : 'Load More'}
-          </button>
-          <button
-            onClick={scrollToTop}
-            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
-          >
-            ↑ Top
-          </button>
+        <div ref={topRef}></div>
+
+        <div className="flex gap-4 items-start">
+          <div className="flex-1 min-w-0">
+            <DynamicTable
+              columns={columns}
+              data={data}
+              loading={loading}
+              error={error || undefined}
+              onSort={handleSort}
+              sortConfig={sortConfig.map((s) => ({ key: s.property, direction: s.order }))}
+              selectionMode={selectionMode}
+              selectedIds={selectedIds}
+              onSelect={handleSelect}
+              onRowClick={handleRowClick}
+              layout={tableLayout ?? DEFAULT_TABLE_LAYOUT}
+              onLayoutChange={handleLayoutChange}
+            />
+          </div>
+          {statisticsOpen && (
+            <aside className="w-80 shrink-0">
+              <StatisticsPanel collectionName={collectionName} properties={properties} where={where} />
+            </aside>
+          )}
         </div>
-      )}
 
-      <DeleteObjectsModal
-        isOpen={deleteModalOpen}
-        onClose={() => setDeleteModalOpen(false)}
-        onDelete={handleDeleteConfirm}
-        selectedCount={selectedIds.size}
-      />
+        <div ref={bottomRef}></div>
 
-      <CreateObjectModal
-        isOpen={createModalOpen}
-        onClose={() => setCreateModalOpen(false)}
-        onSuccess={async () => {
-          await fetchData();
-        }}
-        collectionName={collectionName}
-        properties={properties}
-      />
+        {canLoadMore && (
+          <div className="flex justify-center gap-4">
+            <button
+              onClick={handleLoadMore}
+              disabled={loadingMore}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loadingMore ? 'Loading...' : 'Load More'}
+            </button>
+            <button
+              onClick={scrollToTop}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              ↑ Top
+            </button>
+          </div>
+        )}
+
+        <DeleteObjectsModal
+          isOpen={deleteModalOpen}
+          onClose={() => setDeleteModalOpen(false)}
+          onDelete={handleDelete}
+          onDeleted={handleDeleted}
+          description={
+            deleteScope === 'filter'
+              ? 'all objects matching the current filter'
+              : `the ${selectedIds.size} selected ${selectedIds.size === 1 ? 'object' : 'objects'}`
+          }
+        />
+
+        <ExportModal
+          isOpen={exportOpen}
+          onClose={() => setExportOpen(false)}
+          collectionName={collectionName}
+          properties={properties.map((p) => p.name)}
+          // Unfiltered exports ignore the table's sort so they can use the cursor,
+          // which isn't capped by QUERY_MAXIMUM_RESULTS
+          scope={where ? 'the objects matching the current filter (up to 10,000 by default)' : 'all objects'}
+          total={where ? matchingCount : collectionCount}
+          loadPages={(includeVector) =>
+            client.iterateObjects(collectionName, properties, { where, sort: where ? sortConfig : undefined, includeVector })
+          }
+        />
 
-      {editingObjectId && (
-        <EditObjectModal
-          isOpen={editModalOpen}
-          onClose={() => {
-            setEditModalOpen(false);
-            setEditingObjectId(null);
+        <AddPropertyModal
+          isOpen={addPropertyOpen}
+          onClose={() => setAddPropertyOpen(false)}
+          onSuccess={onSchemaChange}
+          collectionName={collectionName}
+          existingProperties={properties}
+        />
+
+        <ImportModal
+          isOpen={importOpen}
+          onClose={() => setImportOpen(false)}
+          onSuccess={async () => {
+            await fetchData();
           }}
+          collectionName={collectionName}
+          properties={properties}
+        />
+
+        <CreateObjectModal
+          isOpen={createModalOpen}
+          onClose={() => setCreateModalOpen(false)}
           onSuccess={async () => {
             await fetchData();
           }}
           collectionName={collectionName}
-          objectId={editingObjectId}
           properties={properties}
         />
-      )}
-    </div>
+
+        {editingObjectId && (
+          <ObjectDetailDrawer
+            isOpen={drawerOpen}
+            onClose={() => {
+              setDrawerOpen(false);
+              setEditingObjectId(null);
+            }}
+            onEdit={() => {
+              setDrawerOpen(false);
+              setEditModalOpen(true);
+            }}
+            onOpenReference={(className, id) => setReferenceTarget({ className, id })}
+            collectionName={collectionName}
+            objectId={editingObjectId}
+          />
+        )}
+
+        {referenceTarget && (
+          <ObjectDetailDrawer
+            isOpen
+            onClose={() => setReferenceTarget(null)}
+            onOpenReference={(className, id) => setReferenceTarget({ className, id })}
+            collectionName={referenceTarget.className}
+            objectId={referenceTarget.id}
+          />
+        )}
+
+        {editingObjectId && (
+          <EditObjectModal
+            isOpen={editModalOpen}
+            onClose={() => {
+              setEditModalOpen(false);
+              setEditingObjectId(null);
+            }}
+            onSuccess={async () => {
+              await fetchData();
+            }}
+            collectionName={collectionName}
+            objectId={editingObjectId}
+            properties={properties}
+          />
+        )}
+      </div>
+    </WeaviateClientContext.Provider>
   );
 }
@@ -1,7 +1,11 @@
-import { CollectionInfo, deleteCollection } from '../lib/weaviate';
+import { CollectionInfo } from '../lib/weaviate';
+import { useWeaviateClient } from '../lib/weaviate-context';
 import { useState } from 'react';
 import { DeleteModal } from './DeleteModal';
 import { CreateCollectionModal } from './CreateCollectionModal';
+import { AddPropertyModal } from './AddPropertyModal';
+import { CollectionSettingsModal } from './CollectionSettingsModal';
+import { TenantsModal } from './TenantsModal';
 
 type SortMethod = 'name' | 'count';
 type SortDirection = 'asc' | 'desc';
@@ -17,11 +21,15 @@ export function CollectionsList({
   onDeleteSuccess,
   onCollectionClick,
 }: CollectionsListProps) {
+  const client = useWeaviateClient();
   const [sortMethod, setSortMethod] = useState<SortMethod>('name');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [createModalOpen, setCreateModalOpen] = useState(false);
   const [selectedCollection, setSelectedCollection] = useState<string | null>(null);
+  const [addPropertyOpen, setAddPropertyOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [tenantsOpen, setTenantsOpen] = useState(false);
 
   const formatNumber = (num: number): string => {
     return num.toString().replace(/\B(?=(\d{3})+(?!\d))/g, '.');
@@ -45,7 +53,7 @@ export function CollectionsList({
     if (!selectedCollection) return;
 
     try {
-      await deleteCollection(selectedCollection);
+      await client.deleteCollection(selectedCollection);
       setDeleteModalOpen(false);
       await onDeleteSuccess();
     } catch (error) {
@@ -59,11 +67,13 @@ export function CollectionsList({
     if (sortMethod === 'name') {
       return multiplier * a.name.localeCompare(b.name);
     } else {
-      return multiplier * (b.count - a.count);
+      // Collections still being counted sort last
+      return multiplier * ((b.count ?? -1) - (a.count ?? -1));
     }
   });
 
   const handleRefresh = async () => {
+    client.invalidateSchema();
     await onDeleteSuccess();
   };
 
@@ -146,9 +156,22 @@ export function CollectionsList({
                 {collection.description && (
                   <p className="text-sm text-gray-600 mt-1">{collection.description}</p>
                 )}
-                <p className="text-sm text-gray-700 mt-1">
-                  {formatNumber(collection.count)} {collection.count === 1 ? 'object' : 'objects'}
-                </p>
+                {collection.multiTenancy ? (
+                  // Objects are counted per tenant, so there's no total to show
+                  <p className="text-sm text-gray-700 mt-1">
+                    <span className="px-2 py-0.5 bg-purple-100 text-purple-700 text-xs rounded">Multi-tenant</span>
+                  </p>
+                ) : collection.countError ? (
+                  <p className="text-sm text-red-600 mt-1" title={collection.countError}>
+                    Count unavailable
+                  </p>
+                ) : collection.count === null ? (
+                  <p className="text-sm text-gray-400 mt-1">Counting…</p>
+                ) : (
+                  <p className="text-sm text-gray-700 mt-1">
+                    {formatNumber(collection.count)} {collection.count === 1 ? 'object' : 'objects'}
+                  </p>
+                )}
               </div>
               <div className="flex gap-2">
                 <button
@@ -157,6 +180,35 @@ export function CollectionsList({
                 >
                   View Objects
                 </button>
+                <button
+                  onClick={() => {
+                    setSelectedCollection(collection.name);
+                    setAddPropertyOpen(true);
+                  }}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                >
+                  Add Property
+                </button>
+                <button
+                  onClick={() => {
+                    setSelectedCollection(collection.name);
+                    setSettingsOpen(true);
+                  }}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                >
+                  Settings
+                </button>
+                {collection.multiTenancy && (
+                  <button
+                    onClick={() => {
+                      setSelectedCollection(collection.name);
+                      setTenantsOpen(true);
+                    }}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                  >
+                    Tenants
+                  </button>
+                )}
                 <button
                   onClick={() => handleDeleteClick(collection.name)}
                   className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-red-700 bg-red-100 hover:bg-red-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
@@ -192,6 +244,33 @@ export function CollectionsList({
         />
       )}
 
+      {selectedCollection && (
+        <AddPropertyModal
+          isOpen={addPropertyOpen}
+          onClose={() => setAddPropertyOpen(false)}
+          onSuccess={onDeleteSuccess}
+          collectionName={selectedCollection}
+          existingProperties={collections.find((c) => c.name === selectedCollection)?.properties ?? []}
+        />
+      )}
+
+      {selectedCollection && (
+        <CollectionSettingsModal
+          isOpen={settingsOpen}
+          onClose={() => setSettingsOpen(false)}
+          onSuccess={onDeleteSuccess}
+          collectionName={selectedCollection}
+        />
+      )}
+
+      {selectedCollection && (
+        <TenantsModal
+          isOpen={tenantsOpen}
+          onClose={() => setTenantsOpen(false)}
+          collectionName={selectedCollection}
+        />
+      )}
+
       <CreateCollectionModal
         isOpen={createModalOpen}
         onClose={() => setCreateModalOpen(false)}
@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
-import { createCollection, CreateCollectionSchema } from '../lib/weaviate';
+import { cleanProperties, CreateCollectionSchema, PropertySchema, toClassPayload, VectorIndexConfig } from '../lib/weaviate';
+import { useWeaviateClient } from '../lib/weaviate-context';
+import { emptyProperty, PropertyEditor } from './PropertyEditor';
 
 interface CreateCollectionModalProps {
   isOpen: boolean;
@@ -7,87 +9,264 @@ interface CreateCollectionModalProps {
   onSuccess: () => void;
 }
 
-const DATA_TYPES = [
-  'string',
-  'text',
-  'int',
-  'number',
-  'boolean',
-  'date',
-  'string[]',
-  'text[]',
-  'int[]',
-  'number[]',
-  'boolean[]',
-  'date[]',
+const VECTORIZERS = [
+  'none',
+  'text2vec-openai',
+  'text2vec-cohere',
+  'text2vec-huggingface',
+  'text2vec-transformers',
+  'text2vec-ollama',
+  'text2vec-palm',
+  'text2vec-aws',
+  'text2vec-contextionary',
+  'multi2vec-clip',
 ];
 
+const DISTANCES = ['cosine', 'dot', 'l2-squared', 'hamming', 'manhattan'];
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm';
+
+// Empty means "server default"
+function optionalNumber(value: string, label: string, integer = false): number | undefined {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || (integer && !Number.isInteger(parsed))) {
+    throw new Error(`${label} must be ${integer ? 'a whole number' : 'a number'}`);
+  }
+  return parsed;
+}
+
+function wordList(value: string): string[] | undefined {
+  const words = value
+    .split(',')
+    .map((word) => word.trim())
+    .filter(Boolean);
+  return words.length > 0 ? words : undefined;
+}
+
+// Drops keys whose value is undefined; undefined when nothing is left
+function compact<T extends object>(value: T): T | undefined {
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+}
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  placeholder,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}) {
+  return (
+    <label className="block text-sm text-gray-700">
+      {label}
+      <input
+        type="number"
+        step="any"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder ?? 'Default'}
+        className={`${inputClass} mt-1`}
+      />
+    </label>
+  );
+}
+
+function Checkbox({ label, checked, onChange }: { label: string; checked: boolean; onChange: (checked: boolean) => void }) {
+  return (
+    <label className="flex items-center gap-2 text-sm cursor-pointer">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="rounded" />
+      {label}
+    </label>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <details className="border border-gray-200 rounded">
+      <summary className="px-3 py-2 cursor-pointer text-sm font-medium text-gray-700 select-none">{title}</summary>
+      <div className="px-3 pb-3 pt-1 space-y-3">{children}</div>
+    </details>
+  );
+}
+
 export function CreateCollectionModal({ isOpen, onClose, onSuccess }: CreateCollectionModalProps) {
+  const client = useWeaviateClient();
   const [collectionName, setCollectionName] = useState('');
   const [description, setDescription] = useState('');
-  const [properties, setProperties] = useState<Array<{ name: string; dataType: string[]; description: string }>>([
-    { name: '', dataType: ['string'], description: '' },
-  ]);
+  const [properties, setProperties] = useState<PropertySchema[]>([emptyProperty()]);
+  const [vectorizer, setVectorizer] = useState('none');
+  const [moduleConfig, setModuleConfig] = useState('');
+  const [vectorIndexType, setVectorIndexType] = useState('hnsw');
+  const [distance, setDistance] = useState('');
+  const [ef, setEf] = useState('');
+  const [efConstruction, setEfConstruction] = useState('');
+  const [maxConnections, setMaxConnections] = useState('');
+  const [compression, setCompression] = useState<'none' | 'pq' | 'bq'>('none');
+  const [pqSegments, setPqSegments] = useState('');
+  const [dynamicThreshold, setDynamicThreshold] = useState('');
+  const [bm25K1, setBm25K1] = useState('');
+  const [bm25B, setBm25B] = useState('');
+  const [stopwordsPreset, setStopwordsPreset] = useState('');
+  const [stopwordAdditions, setStopwordAdditions] = useState('');
+  const [stopwordRemovals, setStopwordRemovals] = useState('');
+  const [indexTimestamps, setIndexTimestamps] = useState(false);
+  const [indexNullState, setIndexNullState] = useState(false);
+  const [indexPropertyLength, setIndexPropertyLength] = useState(false);
+  const [multiTenancy, setMultiTenancy] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [existingCollections, setExistingCollections] = useState<string[]>([]);
 
   useEffect(() => {
     if (isOpen) {
+      client
+        .getSchema()
+        .then((classes) => setExistingCollections(classes.map((c) => c.class)))
+        .catch((err) => console.error('Error loading collections:', err));
       setCollectionName('');
       setDescription('');
-      setProperties([{ name: '', dataType: ['string'], description: '' }]);
+      setProperties([emptyProperty()]);
+      setVectorizer('none');
+      setModuleConfig('');
+      setVectorIndexType('hnsw');
+      setDistance('');
+      setEf('');
+      setEfConstruction('');
+      setMaxConnections('');
+      setCompression('none');
+      setPqSegments('');
+      setDynamicThreshold('');
+      setBm25K1('');
+      setBm25B('');
+      setStopwordsPreset('');
+      setStopwordAdditions('');
+      setStopwordRemovals('');
+      setIndexTimestamps(false);
+      setIndexNullState(false);
+      setIndexPropertyLength(false);
+      setMultiTenancy(false);
       setError(null);
     }
   }, [isOpen]);
 
+  // The new collection can reference itself, e.g. for a tree of categories
+  const trimmedName = collectionName.trim();
+  const ownName = trimmedName.charAt(0).toUpperCase() + trimmedName.slice(1);
+  const referenceTargets = [...new Set([ownName, ...existingCollections].filter(Boolean))];
+
   const addProperty = () => {
-    setProperties([...properties, { name: '', dataType: ['string'], description: '' }]);
+    setProperties([...properties, emptyProperty()]);
   };
 
   const removeProperty = (index: number) => {
     setProperties(properties.filter((_, i) => i !== index));
   };
 
-  const updateProperty = (index: number, field: 'name' | 'dataType' | 'description', value: string | string[]) => {
+  const updateProperty = (index: number, property: PropertySchema) => {
     const updated = [...properties];
-    updated[index] = { ...updated[index], [field]: value };
+    updated[index] = property;
     setProperties(updated);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
-    setError(null);
+  // Everything the form says, checked; throws with a message for the first problem
+  const buildSchema = (): CreateCollectionSchema => {
+    if (!collectionName.trim()) {
+      throw new Error('Collection name is required');
+    }
 
-    try {
-      // Validate
-      if (!collectionName.trim()) {
-        throw new Error('Collection name is required');
+    const validProperties = cleanProperties(properties);
+    if (validProperties.length === 0) {
+      throw new Error('At least one property is required');
+    }
+
+    let parsedModuleConfig: CreateCollectionSchema['moduleConfig'];
+    if (moduleConfig.trim()) {
+      try {
+        parsedModuleConfig = JSON.parse(moduleConfig);
+      } catch {
+        throw new Error('Module config must be valid JSON');
+      }
+      if (!parsedModuleConfig || typeof parsedModuleConfig !== 'object' || Array.isArray(parsedModuleConfig)) {
+        throw new Error('Module config must be a JSON object keyed by module name');
       }
+    }
 
-      const validProperties = properties
-        .filter((p) => p.name.trim())
-        .map((p) => ({
-          name: p.name.trim(),
-          dataType: p.dataType,
-          description: p.description.trim() || undefined,
-        }));
+    const segments = optionalNumber(pqSegments, 'PQ segments', true);
+    const hnswConfig = compact({
+      ef: optionalNumber(ef, 'ef', true),
+      efConstruction: optionalNumber(efConstruction, 'efConstruction', true),
+      maxConnections: optionalNumber(maxConnections, 'maxConnections', true),
+      pq: compression === 'pq' ? compact({ enabled: true, segments }) : undefined,
+      bq: compression === 'bq' ? { enabled: true } : undefined,
+    });
+    const flatConfig = compression === 'bq' ? { bq: { enabled: true } } : undefined;
 
-      if (validProperties.length === 0) {
-        throw new Error('At least one property is required');
-      }
+    let vectorIndexConfig: VectorIndexConfig | undefined;
+    if (vectorIndexType === 'dynamic') {
+      // Starts flat and switches to hnsw past the threshold; each index keeps its own settings
+      vectorIndexConfig = compact({
+        distance: distance || undefined,
+        threshold: optionalNumber(dynamicThreshold, 'Threshold', true),
+        hnsw: hnswConfig,
+        flat: flatConfig,
+      });
+    } else {
+      vectorIndexConfig = compact({
+        distance: distance || undefined,
+        ...(vectorIndexType === 'flat' ? flatConfig : hnswConfig),
+      });
+    }
 
-      // Ensure collection name starts with uppercase
-      const className = collectionName.trim();
-      const formattedClassName = className.charAt(0).toUpperCase() + className.slice(1);
+    const k1 = optionalNumber(bm25K1, 'BM25 k1');
+    const b = optionalNumber(bm25B, 'BM25 b');
+    const invertedIndexConfig = compact({
+      // Weaviate wants both; fill in its default for the one left empty
+      bm25: k1 !== undefined || b !== undefined ? { k1: k1 ?? 1.2, b: b ?? 0.75 } : undefined,
+      stopwords:
+        stopwordsPreset || stopwordAdditions.trim() || stopwordRemovals.trim()
+          ? compact({
+              preset: stopwordsPreset || 'en',
+              additions: wordList(stopwordAdditions),
+              removals: wordList(stopwordRemovals),
+            })
+          : undefined,
+      indexTimestamps: indexTimestamps || undefined,
+      indexNullState: indexNullState || undefined,
+      indexPropertyLength: indexPropertyLength || undefined,
+    });
 
-      const schema: CreateCollectionSchema = {
-        class: formattedClassName,
-        description: description.trim() || undefined,
-        properties: validProperties,
-      };
+    return {
+      class: collectionName.trim(),
+      description: description.trim() || undefined,
+      properties: validProperties,
+      vectorizer: vectorizer.trim() || undefined,
+      moduleConfig: parsedModuleConfig,
+      vectorIndexType,
+      vectorIndexConfig,
+      invertedIndexConfig,
+      multiTenancy,
+    };
+  };
+
+  let preview: string;
+  try {
+    preview = JSON.stringify(toClassPayload(buildSchema()), null, 2);
+  } catch (err) {
+    preview = `// ${err instanceof Error ? err.message : String(err)}`;
+  }
 
-      await createCollection(schema);
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      await client.createCollection(buildSchema());
       onSuccess();
       onClose();
     } catch (err) {
@@ -101,7 +280,7 @@ export function CreateCollectionModal({ isOpen, onClose, onSuccess }: CreateColl
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 text-gray-900">
-      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
         <h2 className="text-2xl font-bold mb-4">Create New Collection</h2>
 
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -148,52 +327,164 @@ export function CreateCollectionModal({ isOpen, onClose, onSuccess }: CreateColl
 
             <div className="space-y-3">
               {properties.map((prop, index) => (
-                <div key={index} className="flex gap-2 items-start p-3 border border-gray-200 rounded">
-                  <div className="flex-1">
-                    <input
-                      type="text"
-                      value={prop.name}
-                      onChange={(e) => updateProperty(index, 'name', e.target.value)}
-                      placeholder="Property name"
-                      className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
-                    />
-                  </div>
-                  <div className="flex-1">
-                    <select
-                      value={prop.dataType[0] || 'string'}
-                      onChange={(e) => updateProperty(index, 'dataType', [e.target.value])}
-                      className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
-                    >
-                      {DATA_TYPES.map((type) => (
-                        <option key={type} value={type}>
-                          {type}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-                  <div className="flex-1">
-                    <input
-                      type="text"
-                      value={prop.description}
-                      onChange={(e) => updateProperty(index, 'description', e.target.value)}
-                      placeholder="Description (optional)"
-                      className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
-                    />
-                  </div>
-                  {properties.length > 1 && (
-                    <button
-                      type="button"
-                      onClick={() => removeProperty(index)}
-                      className="px-2 py-1 text-red-600 hover:text-red-800 text-sm"
-                    >
-                      ×
-                    </button>
-                  )}
-                </div>
+                <PropertyEditor
+                  key={index}
+                  property={prop}
+                  onChange={(updated) => updateProperty(index, updated)}
+                  onRemove={properties.length > 1 ? () => removeProperty(index) : undefined}
+                  hasVectorizer={!!vectorizer.trim() && vectorizer.trim() !== 'none'}
+                  referenceTargets={referenceTargets}
+                />
               ))}
             </div>
           </div>
 
+          <Section title="Vectorizer">
+            <label className="block text-sm text-gray-700">
+              Module
+              <input
+                type="text"
+                list="vectorizers"
+                value={vectorizer}
+                onChange={(e) => setVectorizer(e.target.value)}
+                placeholder="none"
+                className={`${inputClass} mt-1`}
+              />
+              <datalist id="vectorizers">
+                {VECTORIZERS.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </label>
+            <label className="block text-sm text-gray-700">
+              Module config (JSON)
+              <textarea
+                value={moduleConfig}
+                onChange={(e) => setModuleConfig(e.target.value)}
+                placeholder={'{ "text2vec-openai": { "model": "text-embedding-3-small" } }'}
+                rows={3}
+                className={`${inputClass} mt-1 font-mono`}
+              />
+            </label>
+          </Section>
+
+          <Section title="Vector index">
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-sm text-gray-700">
+                Index type
+                <select
+                  value={vectorIndexType}
+                  onChange={(e) => {
+                    setVectorIndexType(e.target.value);
+                    // Flat indexes only support binary quantization
+                    if (e.target.value === 'flat' && compression === 'pq') setCompression('none');
+                  }}
+                  className={`${inputClass} mt-1`}
+                >
+                  <option value="hnsw">hnsw</option>
+                  <option value="flat">flat</option>
+                  <option value="dynamic">dynamic</option>
+                </select>
+              </label>
+              <label className="block text-sm text-gray-700">
+                Distance metric
+                <select value={distance} onChange={(e) => setDistance(e.target.value)} className={`${inputClass} mt-1`}>
+                  <option value="">Default (cosine)</option>
+                  {DISTANCES.map((metric) => (
+                    <option key={metric} value={metric}>
+                      {metric}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {vectorIndexType !== 'flat' && (
+                <>
+                  <NumberField label="ef" value={ef} onChange={setEf} />
+                  <NumberField label="efConstruction" value={efConstruction} onChange={setEfConstruction} />
+                  <NumberField label="maxConnections" value={maxConnections} onChange={setMaxConnections} />
+                </>
+              )}
+              {vectorIndexType === 'dynamic' && (
+                <NumberField
+                  label="Switch to hnsw after (objects)"
+                  value={dynamicThreshold}
+                  onChange={setDynamicThreshold}
+                  placeholder="10000"
+                />
+              )}
+              <label className="block text-sm text-gray-700">
+                Compression
+                <select
+                  value={compression}
+                  onChange={(e) => setCompression(e.target.value as 'none' | 'pq' | 'bq')}
+                  className={`${inputClass} mt-1`}
+                >
+                  <option value="none">None</option>
+                  {vectorIndexType !== 'flat' && <option value="pq">Product quantization (PQ)</option>}
+                  <option value="bq">Binary quantization (BQ)</option>
+                </select>
+              </label>
+              {compression === 'pq' && <NumberField label="PQ segments" value={pqSegments} onChange={setPqSegments} />}
+            </div>
+          </Section>
+
+          <Section title="Inverted index">
+            <div className="grid grid-cols-2 gap-3">
+              <NumberField label="BM25 k1" value={bm25K1} onChange={setBm25K1} placeholder="1.2" />
+              <NumberField label="BM25 b" value={bm25B} onChange={setBm25B} placeholder="0.75" />
+              <label className="block text-sm text-gray-700">
+                Stopwords preset
+                <select
+                  value={stopwordsPreset}
+                  onChange={(e) => setStopwordsPreset(e.target.value)}
+                  className={`${inputClass} mt-1`}
+                >
+                  <option value="">Default (en)</option>
+                  <option value="en">en</option>
+                  <option value="none">none</option>
+                </select>
+              </label>
+              <div />
+              <label className="block text-sm text-gray-700">
+                Extra stopwords
+                <input
+                  type="text"
+                  value={stopwordAdditions}
+                  onChange={(e) => setStopwordAdditions(e.target.value)}
+                  placeholder="comma, separated"
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Not stopwords
+                <input
+                  type="text"
+                  value={stopwordRemovals}
+                  onChange={(e) => setStopwordRemovals(e.target.value)}
+                  placeholder="comma, separated"
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              <Checkbox label="Index timestamps" checked={indexTimestamps} onChange={setIndexTimestamps} />
+              <Checkbox label="Index null state" checked={indexNullState} onChange={setIndexNullState} />
+              <Checkbox label="Index property length" checked={indexPropertyLength} onChange={setIndexPropertyLength} />
+            </div>
+          </Section>
+
+          <Section title="Multi-tenancy">
+            <Checkbox label="Enable multi-tenancy" checked={multiTenancy} onChange={setMultiTenancy} />
+            <p className="text-xs text-gray-500">
+              Objects are kept apart per tenant, and every read and write names one. This can&apos;t be changed after
+              the collection is created.
+            </p>
+          </Section>
+
+          <Section title="JSON preview">
+            <pre className="bg-gray-50 border border-gray-200 rounded p-3 text-xs overflow-auto max-h-72">{preview}</pre>
+          </Section>
+
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
               {error}
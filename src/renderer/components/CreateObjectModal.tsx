@@ -1,5 +1,9 @@
 import { useState, useEffect } from 'react';
-import { createObject, initializeWeaviate } from '../lib/weaviate';
+import { Beacon, isObjectType, isReferenceType, NestedProperty, toBeacon, uuidValueError } from '../lib/weaviate';
+import { useWeaviateClient } from '../lib/weaviate-context';
+import { ReferenceEditor } from './ReferenceEditor';
+import { NestedObjectField } from './NestedObjectField';
+import { DATA_TYPE_FIELDS } from './DataTypeFields';
 
 interface CreateObjectModalProps {
   isOpen: boolean;
@@ -10,6 +14,7 @@ interface CreateObjectModalProps {
     name: string;
     dataType?: string[];
     description?: string;
+    nestedProperties?: NestedProperty[];
   }>;
 }
 
@@ -20,6 +25,7 @@ export function CreateObjectModal({
   collectionName,
   properties,
 }: CreateObjectModalProps) {
+  const client = useWeaviateClient();
   const [formData, setFormData] = useState<Record<string, unknown>>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -29,12 +35,16 @@ export function CreateObjectModal({
       const initialData: Record<string, unknown> = {};
       properties.forEach((prop) => {
         const dataType = prop.dataType?.[0] || 'string';
-        if (dataType.includes('[]')) {
+        if (dataType.includes('[]') || isReferenceType(dataType)) {
           initialData[prop.name] = [];
+        } else if (dataType === 'object') {
+          initialData[prop.name] = {};
         } else if (dataType === 'boolean') {
           initialData[prop.name] = false;
         } else if (dataType === 'int' || dataType === 'number') {
           initialData[prop.name] = 0;
+        } else if (DATA_TYPE_FIELDS[dataType]) {
+          // Left unset until filled in; an empty string isn't valid for these
         } else {
           initialData[prop.name] = '';
         }
@@ -67,12 +77,16 @@ export function CreateObjectModal({
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const uuidError = uuidValueError(properties, formData);
+    if (uuidError) {
+      setError(uuidError);
+      return;
+    }
     setLoading(true);
     setError(null);
 
     try {
-      await initializeWeaviate();
-      await createObject(collectionName, formData);
+      await client.createObject(collectionName, formData);
       onSuccess();
       onClose();
     } catch (err) {
@@ -84,11 +98,55 @@ export function CreateObjectModal({
 
   if (!isOpen) return null;
 
-  const renderField = (prop: { name: string; dataType?: string[]; description?: string }) => {
+  const renderField = (prop: {
+    name: string;
+    dataType?: string[];
+    description?: string;
+    nestedProperties?: NestedProperty[];
+  }) => {
     const dataType = prop.dataType?.[0] || 'string';
     const isArray = dataType.includes('[]');
     const baseType = isArray ? dataType.replace('[]', '') : dataType;
 
+    // Sent with the new object as beacons
+    if (isReferenceType(dataType)) {
+      const references = (formData[prop.name] as Beacon[]) || [];
+      return (
+        <ReferenceEditor
+          key={prop.name}
+          property={prop}
+          references={references}
+          onAdd={(target) => handleFieldChange(prop.name, [...references, toBeacon(target.className, target.id)])}
+          onRemove={(reference) =>
+            handleFieldChange(prop.name, references.filter((ref) => ref.beacon !== reference.beacon))
+          }
+        />
+      );
+    }
+
+    const TypeField = DATA_TYPE_FIELDS[dataType];
+    if (TypeField) {
+      return (
+        <TypeField
+          key={prop.name}
+          property={prop}
+          value={formData[prop.name]}
+          onChange={(value) => handleFieldChange(prop.name, value)}
+        />
+      );
+    }
+
+    if (isObjectType(dataType)) {
+      return (
+        <NestedObjectField
+          key={prop.name}
+          property={prop}
+          value={formData[prop.name]}
+          onChange={(value) => handleFieldChange(prop.name, value)}
+        />
+      );
+    }
+
     if (isArray) {
       const array = (formData[prop.name] as string[]) || [];
       return (
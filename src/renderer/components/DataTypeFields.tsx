@@ -0,0 +1,241 @@
+import { useRef, useState } from 'react';
+import { GeoCoordinates, isUuid, PhoneNumber } from '../lib/weaviate';
+import {
+  blobByteLength,
+  blobMimeType,
+  downloadBlob,
+  formatBytes,
+  isImageBlob,
+  readFileAsBase64,
+  toDataUrl,
+} from '../lib/blob';
+
+// Form fields for the data types that need more than a plain input. Clearing
+// a field sends null, so an update removes the value instead of keeping it.
+
+interface FieldProps {
+  property: {
+    name: string;
+    description?: string;
+  };
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+function FieldLabel({ property, dataType }: { property: FieldProps['property']; dataType: string }) {
+  return (
+    <label className="block text-sm font-medium text-gray-700">
+      {property.name} {property.description && <span className="text-gray-600">({property.description})</span>}
+      <span className="text-gray-600 ml-2">[{dataType}]</span>
+    </label>
+  );
+}
+
+export function UuidField({ property, value, onChange }: FieldProps) {
+  const text = (value as string) || '';
+  const invalid = text !== '' && !isUuid(text);
+
+  return (
+    <div>
+      <FieldLabel property={property} dataType="uuid" />
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => onChange(e.target.value.trim() || null)}
+          placeholder="00000000-0000-0000-0000-000000000000"
+          className={`flex-1 px-3 py-2 border rounded-md font-mono text-sm ${invalid ? 'border-red-400' : 'border-gray-300'}`}
+        />
+        <button
+          type="button"
+          onClick={() => onChange(crypto.randomUUID())}
+          className="px-3 py-2 text-sm text-blue-600 hover:text-blue-800"
+        >
+          Generate
+        </button>
+      </div>
+      {invalid && <p className="text-sm text-red-600 mt-1">Not a valid UUID</p>}
+    </div>
+  );
+}
+
+export function GeoCoordinatesField({ property, value, onChange }: FieldProps) {
+  const coordinates = value as GeoCoordinates | null | undefined;
+  // Kept here rather than in the value, which stays null until both halves are filled in
+  const [draft, setDraft] = useState({
+    latitude: coordinates?.latitude?.toString() ?? '',
+    longitude: coordinates?.longitude?.toString() ?? '',
+  });
+  const halfFilled = (draft.latitude === '') !== (draft.longitude === '');
+
+  const update = (field: keyof GeoCoordinates, raw: string) => {
+    const next = { ...draft, [field]: raw };
+    setDraft(next);
+    const latitude = parseFloat(next.latitude);
+    const longitude = parseFloat(next.longitude);
+    onChange(Number.isNaN(latitude) || Number.isNaN(longitude) ? null : { latitude, longitude });
+  };
+
+  return (
+    <div>
+      <FieldLabel property={property} dataType="geoCoordinates" />
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-sm text-gray-600">
+          Latitude
+          <input
+            type="number"
+            step="any"
+            min={-90}
+            max={90}
+            value={draft.latitude}
+            onChange={(e) => update('latitude', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          Longitude
+          <input
+            type="number"
+            step="any"
+            min={-180}
+            max={180}
+            value={draft.longitude}
+            onChange={(e) => update('longitude', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+          />
+        </label>
+      </div>
+      {halfFilled && <p className="text-sm text-red-600 mt-1">Enter both latitude and longitude</p>}
+    </div>
+  );
+}
+
+export function PhoneNumberField({ property, value, onChange }: FieldProps) {
+  const phone = value as PhoneNumber | null | undefined;
+
+  // Any edit makes Weaviate's parsed fields stale; it parses again on save
+  const update = (changes: Partial<PhoneNumber>) => {
+    const next = { input: phone?.input ?? '', defaultCountry: phone?.defaultCountry, ...changes };
+    onChange(next.input ? { input: next.input, defaultCountry: next.defaultCountry || undefined } : null);
+  };
+
+  const parsed: [string, string][] =
+    phone?.internationalFormatted !== undefined
+      ? [
+          ['International', phone.internationalFormatted],
+          ['National', phone.nationalFormatted ?? String(phone.national ?? '')],
+          ['Country code', phone.countryCode !== undefined ? `+${phone.countryCode}` : ''],
+          ['Valid', phone.valid ? 'yes' : 'no'],
+        ]
+      : [];
+
+  return (
+    <div>
+      <FieldLabel property={property} dataType="phoneNumber" />
+      <div className="flex gap-2">
+        <input
+          type="tel"
+          value={phone?.input ?? ''}
+          onChange={(e) => update({ input: e.target.value })}
+          placeholder="+31 20 123 4567"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+        />
+        <input
+          type="text"
+          value={phone?.defaultCountry ?? ''}
+          onChange={(e) => update({ defaultCountry: e.target.value.toLowerCase() })}
+          placeholder="Country (nl)"
+          maxLength={2}
+          title="Used when the number has no country code"
+          className="w-32 px-3 py-2 border border-gray-300 rounded-md"
+        />
+      </div>
+      {parsed.length > 0 ? (
+        <dl className="grid grid-cols-[8rem_1fr] gap-x-2 text-sm mt-2 text-gray-600">
+          {parsed.map(([label, text]) => (
+            <div key={label} className="contents">
+              <dt>{label}</dt>
+              <dd className="text-gray-900">{text}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        phone?.input && <p className="text-sm text-gray-500 mt-1">Weaviate parses the number when it&apos;s saved.</p>
+      )}
+    </div>
+  );
+}
+
+export function BlobField({ property, value, onChange }: FieldProps) {
+  const base64 = (value as string) || '';
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      onChange(await readFileAsBase64(file));
+    } catch (err) {
+      console.error('Error reading file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    }
+  };
+
+  const mimeType = base64 ? blobMimeType(base64) : undefined;
+  const extension = mimeType?.split('/')[1]?.replace('+xml', '') ?? 'bin';
+
+  return (
+    <div className="space-y-2">
+      <FieldLabel property={property} dataType="blob" />
+      {base64 && (
+        <div className="flex items-center gap-3 text-sm">
+          {isImageBlob(base64) && (
+            <img src={toDataUrl(base64)} alt={property.name} className="h-16 w-16 object-contain border rounded" />
+          )}
+          <span className="text-gray-600">
+            {formatBytes(blobByteLength(base64))}
+            {mimeType && ` · ${mimeType}`}
+          </span>
+        </div>
+      )}
+      <div className="flex gap-3 text-sm">
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+        <button type="button" onClick={() => fileInputRef.current?.click()} className="text-blue-600 hover:text-blue-800">
+          {base64 ? 'Replace file' : 'Upload file'}
+        </button>
+        {base64 && (
+          <>
+            <button
+              type="button"
+              onClick={() => downloadBlob(base64, `${property.name}.${extension}`)}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Download
+            </button>
+            <button type="button" onClick={() => onChange(null)} className="text-red-600 hover:text-red-800">
+              Clear
+            </button>
+          </>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+/** The field for each data type that has one; other types use the form's plain inputs. */
+export const DATA_TYPE_FIELDS: Record<string, (props: FieldProps) => React.ReactElement> = {
+  uuid: UuidField,
+  geoCoordinates: GeoCoordinatesField,
+  phoneNumber: PhoneNumberField,
+  blob: BlobField,
+};
@@ -1,25 +1,37 @@
 import { useEffect, useRef, useState } from 'react';
+import { BatchDeleteResult } from '../lib/weaviate';
+import { ErrorDetails } from './ErrorDetails';
 
 interface DeleteObjectsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onDelete: () => void;
-  selectedCount: number;
+  // Runs the batch delete; a dry run only reports what would match
+  onDelete: (dryRun: boolean) => Promise<BatchDeleteResult>;
+  // Called after a delete that removed something, e.g. to reload the table
+  onDeleted: () => void;
+  // What's being deleted, e.g. "the 3 selected objects"
+  description: string;
 }
 
 export function DeleteObjectsModal({
   isOpen,
   onClose,
   onDelete,
-  selectedCount,
+  onDeleted,
+  description,
 }: DeleteObjectsModalProps) {
   const [inputValue, setInputValue] = useState('');
+  const [preview, setPreview] = useState<BatchDeleteResult | null>(null);
+  const [result, setResult] = useState<BatchDeleteResult | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | Error | null>(null);
   const modalRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
+      // Like the backdrop, stay open until the delete reports back
+      if (e.key === 'Escape' && !deleting) {
         onClose();
       }
     };
@@ -28,13 +40,27 @@ export function DeleteObjectsModal({
       document.addEventListener('keydown', handleEscape);
       return () => document.removeEventListener('keydown', handleEscape);
     }
-  }, [isOpen, onClose]);
+  }, [isOpen, onClose, deleting]);
 
   useEffect(() => {
-    if (isOpen) {
-      setInputValue('');
-      inputRef.current?.focus();
-    }
+    if (!isOpen) return;
+    setInputValue('');
+    setPreview(null);
+    setResult(null);
+    setError(null);
+    inputRef.current?.focus();
+
+    let cancelled = false;
+    onDelete(true)
+      .then((dryRun) => {
+        if (!cancelled) setPreview(dryRun);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err : 'Failed to count matching objects');
+      });
+    return () => {
+      cancelled = true;
+    };
   }, [isOpen]);
 
   if (!isOpen) return null;
@@ -43,16 +69,30 @@ export function DeleteObjectsModal({
     setInputValue(e.target.value);
   };
 
-  const handleDelete = () => {
-    if (inputValue.toLowerCase() === 'delete') {
-      onDelete();
+  const handleDelete = async () => {
+    if (inputValue.toLowerCase() !== 'delete') return;
+    setDeleting(true);
+    setError(null);
+    try {
+      const deleted = await onDelete(false);
+      setResult(deleted);
+      if (deleted.successful > 0) {
+        onDeleted();
+      }
+    } catch (err) {
+      console.error('Error deleting objects:', err);
+      setError(err instanceof Error ? err : 'Failed to delete objects');
+    } finally {
+      setDeleting(false);
     }
   };
 
+  const count = (n: number) => `${n.toLocaleString()} ${n === 1 ? 'object' : 'objects'}`;
+
   return (
     <div
       className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 text-gray-900"
-      onClick={onClose}
+      onClick={deleting ? undefined : onClose}
     >
       <div
         className="bg-white rounded-lg p-6 w-full max-w-md"
@@ -68,35 +108,84 @@ export function DeleteObjectsModal({
           </button>
         </div>
 
-        <div className="space-y-4">
-          <p className="text-gray-700">
-            You are about to delete {selectedCount} {selectedCount === 1 ? 'object' : 'objects'}. This
-            action cannot be undone.
-          </p>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Type &quot;delete&quot; to confirm:
-            </label>
-            <input
-              ref={inputRef}
-              type="text"
-              value={inputValue}
-              onChange={handleInputChange}
-              onPaste={(e) => e.preventDefault()}
-              onDrop={(e) => e.preventDefault()}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-red-500 focus:border-red-500"
-            />
+        {result ? (
+          <div className="space-y-4">
+            <dl className="grid grid-cols-2 gap-y-1 text-sm">
+              <dt className="text-gray-600">Matched</dt>
+              <dd>{result.matches.toLocaleString()}</dd>
+              <dt className="text-gray-600">Deleted</dt>
+              <dd className="text-green-700">{result.successful.toLocaleString()}</dd>
+              <dt className="text-gray-600">Failed</dt>
+              <dd className={result.failed > 0 ? 'text-red-700' : ''}>{result.failed.toLocaleString()}</dd>
+            </dl>
+
+            {result.objects.length > 0 && (
+              <ul className="text-sm text-red-700 bg-red-50 border border-red-200 rounded px-4 py-3 space-y-1 max-h-40 overflow-y-auto">
+                {result.objects.map((object) => (
+                  <li key={object.id}>
+                    <span className="font-mono">{object.id}</span>:{' '}
+                    {object.errors?.error.map((e) => e.message).join('; ') || object.status}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {result.matches > result.limit && (
+              <p className="text-sm text-gray-700">
+                Weaviate deletes at most {count(result.limit)} per request; run the delete again for the rest.
+              </p>
+            )}
+
+            <button
+              onClick={onClose}
+              className="w-full px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              Close
+            </button>
           </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-gray-700">
+              You are about to delete {description}
+              {preview ? ` (${count(preview.matches)} matched)` : ' (counting…)'}. This action cannot be undone.
+            </p>
 
-          <button
-            onClick={handleDelete}
-            disabled={inputValue.toLowerCase() !== 'delete'}
-            className="w-full px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            Delete {selectedCount} {selectedCount === 1 ? 'Object' : 'Objects'}
-          </button>
-        </div>
+            {preview && preview.matches > preview.limit && (
+              <p className="text-sm text-gray-700">
+                Only the first {count(preview.limit)} will be deleted by this request.
+              </p>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Type &quot;delete&quot; to confirm:
+              </label>
+              <input
+                ref={inputRef}
+                type="text"
+                value={inputValue}
+                onChange={handleInputChange}
+                onPaste={(e) => e.preventDefault()}
+                onDrop={(e) => e.preventDefault()}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-red-500 focus:border-red-500"
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                <ErrorDetails error={error} />
+              </div>
+            )}
+
+            <button
+              onClick={handleDelete}
+              disabled={inputValue.toLowerCase() !== 'delete' || deleting || preview?.matches === 0}
+              className="w-full px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {deleting ? 'Deleting...' : preview ? `Delete ${count(Math.min(preview.matches, preview.limit))}` : 'Delete'}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
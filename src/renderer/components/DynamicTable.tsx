@@ -1,9 +1,22 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Column,
+  ColumnDef as TanstackColumnDef,
+  ColumnSizingState,
+  flexRender,
+  functionalUpdate,
+  getCoreRowModel,
+  Updater,
+  useReactTable,
+} from '@tanstack/react-table';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { DEFAULT_TABLE_LAYOUT, TableLayout } from '../lib/preferences';
 
 export type ColumnDef = {
   key: string;
   label: string;
   dataType?: string[];
+  sortable?: boolean;
   render?: (value: unknown, row?: TableData) => React.ReactNode;
 };
 
@@ -18,17 +31,95 @@ type DynamicTableProps = {
   data: TableData[];
   loading?: boolean;
   error?: string;
-  onSort?: (columnKey: string) => void;
+  // additive is true for shift-click, which adds a secondary sort key
+  onSort?: (columnKey: string, additive: boolean) => void;
   sortConfig?: {
     key: string;
     direction: 'asc' | 'desc';
-  } | null;
+  }[];
   selectionMode?: boolean;
   selectedIds?: Set<string>;
   onSelect?: (id: string) => void;
   onRowClick?: (row: TableData) => void;
+  // Pass both to let the user hide, reorder, resize and pin columns
+  layout?: TableLayout;
+  onLayoutChange?: (layout: TableLayout) => void;
 };
 
+const COLUMN_WIDTH = 200;
+const MIN_COLUMN_WIDTH = 80;
+const SELECT_COLUMN = '_select';
+const SELECT_COLUMN_WIDTH = 72;
+const ESTIMATED_ROW_HEIGHT = 45;
+// Longer arrays are cut off until the cell is expanded
+const MAX_ARRAY_ITEMS = 5;
+
+// Saved order first, then anything the layout doesn't know about yet
+function orderColumns(columns: ColumnDef[], order: string[]): string[] {
+  const keys = columns.map((c) => c.key);
+  return [...order.filter((key) => keys.includes(key)), ...keys.filter((key) => !order.includes(key))];
+}
+
+function ColumnChooser({
+  columns,
+  layout,
+  onLayoutChange,
+}: {
+  columns: ColumnDef[];
+  layout: TableLayout;
+  onLayoutChange: (layout: TableLayout) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const labels = Object.fromEntries(columns.map((c) => [c.key, c.label]));
+
+  const toggle = (list: 'hidden' | 'pinned', key: string) => {
+    const current = layout[list];
+    onLayoutChange({
+      ...layout,
+      [list]: current.includes(key) ? current.filter((k) => k !== key) : [...current, key],
+    });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+      >
+        Columns{layout.hidden.length > 0 && ` (${layout.hidden.length} hidden)`}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-72 max-h-96 overflow-auto bg-white border border-gray-200 rounded-md shadow-lg z-20 p-2">
+          <div className="flex justify-between items-center px-1 pb-2 border-b border-gray-200 mb-1">
+            <span className="text-xs text-gray-500">Drag headers to reorder</span>
+            <button
+              onClick={() => onLayoutChange(DEFAULT_TABLE_LAYOUT)}
+              className="text-xs text-blue-600 hover:text-blue-800"
+            >
+              Reset
+            </button>
+          </div>
+          {orderColumns(columns, layout.order).map((key) => (
+            <div key={key} className="flex items-center justify-between px-1 py-1 hover:bg-gray-50 rounded">
+              <label className="flex items-center gap-2 text-sm min-w-0">
+                <input type="checkbox" checked={!layout.hidden.includes(key)} onChange={() => toggle('hidden', key)} />
+                <span className="truncate">{labels[key]}</span>
+              </label>
+              <button
+                onClick={() => toggle('pinned', key)}
+                className={`text-xs px-2 ${layout.pinned.includes(key) ? 'text-blue-600 font-medium' : 'text-gray-400 hover:text-gray-700'}`}
+                title="Keep this column visible when scrolling sideways"
+              >
+                {layout.pinned.includes(key) ? 'Pinned' : 'Pin'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export const DynamicTable: React.FC<DynamicTableProps> = ({
   columns,
   data,
@@ -40,29 +131,28 @@ export const DynamicTable: React.FC<DynamicTableProps> = ({
   selectedIds = new Set(),
   onSelect,
   onRowClick,
+  layout,
+  onLayoutChange,
 }) => {
-  if (loading) {
-    return <div>Loading...</div>;
-  }
-
-  if (error) {
-    return <div>Error: {error}</div>;
-  }
-
-  const getSortIcon = (columnKey: string) => {
-    const column = columns.find((col) => col.key === columnKey);
-    if (!column?.dataType?.includes('date')) {
-      return null;
-    }
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // `${rowId}:${columnKey}` of array cells showing all their items
+  const [expandedCells, setExpandedCells] = useState<Set<string>>(new Set());
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+  const customizable = !!(layout && onLayoutChange);
 
-    if (sortConfig?.key !== columnKey) {
-      return <span>↓</span>; // Show descending arrow as default
-    }
-    return sortConfig.direction === 'asc' ? <span>↑</span> : <span>↓</span>;
+  const toggleExpanded = (cellKey: string) => {
+    setExpandedCells((prev) => {
+      const next = new Set(prev);
+      if (next.has(cellKey)) {
+        next.delete(cellKey);
+      } else {
+        next.add(cellKey);
+      }
+      return next;
+    });
   };
 
-  const renderCell = (row: TableData, column: ColumnDef) => {
-    const value = row[column.key];
+  const renderValue = (row: TableData, column: ColumnDef, value: unknown) => {
     if (column.render) {
       // Pass both value and row to render function for flexibility
       return column.render(value, row);
@@ -76,58 +166,278 @@ export const DynamicTable: React.FC<DynamicTableProps> = ({
     return String(value);
   };
 
+  const renderCell = (row: TableData, rowId: string, column: ColumnDef) => {
+    const value = row[column.key];
+    if (!Array.isArray(value) || value.length <= MAX_ARRAY_ITEMS) {
+      return <div className="truncate">{renderValue(row, column, value)}</div>;
+    }
+
+    const cellKey = `${rowId}:${column.key}`;
+    const expanded = expandedCells.has(cellKey);
+    return (
+      <div className={expanded ? 'whitespace-normal break-words' : 'truncate'}>
+        {renderValue(row, column, expanded ? value : value.slice(0, MAX_ARRAY_ITEMS))}{' '}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            toggleExpanded(cellKey);
+          }}
+          className="text-xs text-blue-600 hover:text-blue-800"
+        >
+          {expanded ? 'show less' : `+${value.length - MAX_ARRAY_ITEMS} more`}
+        </button>
+      </div>
+    );
+  };
+
+  const getSortIcon = (column: ColumnDef) => {
+    if (!column.sortable) {
+      return null;
+    }
+
+    const index = sortConfig?.findIndex((s) => s.key === column.key) ?? -1;
+    if (!sortConfig || index === -1) {
+      return <span className="text-gray-300">↓</span>; // Show descending arrow as default
+    }
+    return (
+      <span>
+        {sortConfig[index].direction === 'asc' ? '↑' : '↓'}
+        {/* Priority only matters once there's more than one key */}
+        {sortConfig.length > 1 && <sup className="ml-0.5">{index + 1}</sup>}
+      </span>
+    );
+  };
+
+  const tableColumns = useMemo<TanstackColumnDef<TableData>[]>(() => {
+    const result: TanstackColumnDef<TableData>[] = columns.map((column) => ({
+      id: column.key,
+      size: COLUMN_WIDTH,
+      minSize: MIN_COLUMN_WIDTH,
+      header: () => (
+        <div className="flex items-center gap-1 min-w-0">
+          <span className="truncate">{column.label}</span>
+          {getSortIcon(column)}
+        </div>
+      ),
+      cell: ({ row }) => renderCell(row.original, row.id, column),
+      meta: column,
+    }));
+
+    if (selectionMode) {
+      result.unshift({
+        id: SELECT_COLUMN,
+        size: SELECT_COLUMN_WIDTH,
+        enableResizing: false,
+        header: 'Select',
+        cell: ({ row }) => {
+          const id = row.original._additional?.id;
+          return (
+            <input
+              type="checkbox"
+              checked={id ? selectedIds.has(id) : false}
+              onChange={() => id && onSelect?.(id)}
+            />
+          );
+        },
+      });
+    }
+    return result;
+  }, [columns, selectionMode, selectedIds, sortConfig, expandedCells]);
+
+  const columnOrder = layout ? [SELECT_COLUMN, ...orderColumns(columns, layout.order)] : [];
+
+  const table = useReactTable({
+    data,
+    columns: tableColumns,
+    getCoreRowModel: getCoreRowModel(),
+    // Object ids keep row state (measured height, expanded cells) attached to
+    // the right object as pages are appended
+    getRowId: (row, index) => row._additional?.id || String(index),
+    enableColumnResizing: customizable,
+    columnResizeMode: 'onChange',
+    state: {
+      columnOrder,
+      columnVisibility: Object.fromEntries((layout?.hidden ?? []).map((key) => [key, false])),
+      columnSizing: layout?.widths ?? {},
+      columnPinning: { left: [SELECT_COLUMN, ...(layout?.pinned ?? [])] },
+    },
+    onColumnSizingChange: (updater: Updater<ColumnSizingState>) => {
+      if (layout && onLayoutChange) {
+        onLayoutChange({ ...layout, widths: functionalUpdate(updater, layout.widths) });
+      }
+    },
+  });
+
+  const { rows } = table.getRowModel();
+  const pinnedColumns = table.getLeftVisibleLeafColumns();
+  const centerColumns = table.getCenterVisibleLeafColumns();
+  const pinnedWidth = table.getLeftTotalSize();
+
+  const rowVirtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    overscan: 10,
+  });
+
+  // Pinned columns are always rendered; only the rest scroll out of view
+  const columnVirtualizer = useVirtualizer({
+    horizontal: true,
+    count: centerColumns.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: (index) => centerColumns[index].getSize(),
+    scrollMargin: pinnedWidth,
+    overscan: 3,
+  });
+
+  const centerWidths = centerColumns.map((c) => `${c.id}:${c.getSize()}`).join(',');
+  useEffect(() => {
+    columnVirtualizer.measure();
+  }, [centerWidths]);
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  if (error) {
+    return <div>Error: {error}</div>;
+  }
+
+  const virtualColumns = columnVirtualizer.getVirtualItems();
+  // Stand-ins for the columns scrolled out of view on either side
+  const paddingLeft = (virtualColumns[0]?.start ?? pinnedWidth) - pinnedWidth;
+  const paddingRight = columnVirtualizer.getTotalSize() - ((virtualColumns[virtualColumns.length - 1]?.end ?? pinnedWidth) - pinnedWidth);
+
+  const pinnedStyle = (column: Column<TableData>): React.CSSProperties => ({
+    position: 'sticky',
+    left: column.getStart('left'),
+    zIndex: 1,
+  });
+
+  const handleDrop = (targetKey: string) => {
+    if (!layout || !onLayoutChange || !draggedColumn || draggedColumn === targetKey) return;
+    const order = orderColumns(columns, layout.order).filter((key) => key !== draggedColumn);
+    order.splice(order.indexOf(targetKey), 0, draggedColumn);
+    onLayoutChange({ ...layout, order });
+    setDraggedColumn(null);
+  };
+
+  const renderHeader = (column: Column<TableData>, pinned: boolean) => {
+    const header = table.getFlatHeaders().find((h) => h.column.id === column.id);
+    if (!header) return null;
+    const columnDef = column.columnDef.meta as ColumnDef | undefined;
+    const draggable = customizable && column.id !== SELECT_COLUMN;
+    return (
+      <th
+        key={header.id}
+        draggable={draggable}
+        onDragStart={() => setDraggedColumn(column.id)}
+        onDragEnd={() => setDraggedColumn(null)}
+        onDragOver={(e) => draggable && draggedColumn && e.preventDefault()}
+        onDrop={() => handleDrop(column.id)}
+        onClick={(e) => columnDef?.sortable && onSort?.(columnDef.key, e.shiftKey)}
+        className={`px-6 py-3 text-left text-xs font-medium text-gray-900 uppercase tracking-wider bg-gray-50 ${
+          columnDef?.sortable ? 'cursor-pointer hover:bg-gray-100 select-none' : ''
+        } ${draggedColumn === column.id ? 'opacity-50' : ''}`}
+        style={{
+          display: 'flex',
+          width: header.getSize(),
+          position: 'relative',
+          ...(pinned ? pinnedStyle(column) : {}),
+        }}
+        title={
+          columnDef
+            ? `${columnDef.dataType ? `Type: ${columnDef.dataType[0]}` : 'unknown'}${
+                columnDef.sortable ? ' (shift-click to add to the sort)' : ''
+              }`
+            : undefined
+        }
+      >
+        {flexRender(column.columnDef.header, header.getContext())}
+        {customizable && header.column.getCanResize() && (
+          <div
+            onMouseDown={header.getResizeHandler()}
+            onTouchStart={header.getResizeHandler()}
+            onClick={(e) => e.stopPropagation()}
+            className={`absolute right-0 top-0 h-full w-1 cursor-col-resize hover:bg-blue-300 ${
+              header.column.getIsResizing() ? 'bg-blue-500' : ''
+            }`}
+          />
+        )}
+      </th>
+    );
+  };
+
   return (
-    <div className="overflow-x-auto text-gray-900">
-      <table className="min-w-full divide-y divide-gray-200">
-        <thead className="bg-gray-50">
-          <tr>
-            {selectionMode && (
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-900 uppercase tracking-wider">
-                Select
-              </th>
-            )}
-            {columns.map((column) => (
-              <th
-                key={column.key}
-                onClick={() => onSort?.(column.key)}
-                className={`px-6 py-3 text-left text-xs font-medium text-gray-900 uppercase tracking-wider ${
-                  column.dataType?.includes('date') ? 'cursor-pointer hover:bg-gray-100' : ''
-                }`}
-                title={column.dataType ? `Type: ${column.dataType[0]}` : 'unknown'}
-              >
-                <div className="flex items-center gap-1">
-                  {column.label}
-                  {getSortIcon(column.key)}
-                </div>
-              </th>
-            ))}
-          </tr>
-        </thead>
-        <tbody className="bg-white divide-y divide-gray-200">
-          {data.map((row, rowIndex) => (
-            <tr
-              key={rowIndex}
-              onClick={() => !selectionMode && onRowClick?.(row)}
-              className={!selectionMode && onRowClick ? 'cursor-pointer hover:bg-gray-50' : ''}
-            >
-              {selectionMode && (
-                <td className="px-6 py-4 whitespace-nowrap">
-                  <input
-                    type="checkbox"
-                    checked={row._additional?.id ? selectedIds.has(row._additional.id) : false}
-                    onChange={() => row._additional?.id && onSelect?.(row._additional.id)}
-                  />
-                </td>
-              )}
-              {columns.map((column) => (
-                <td key={column.key} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                  {renderCell(row, column)}
-                </td>
-              ))}
+    <div className="space-y-2">
+      {layout && onLayoutChange && (
+        <div className="flex justify-end">
+          <ColumnChooser columns={columns} layout={layout} onLayoutChange={onLayoutChange} />
+        </div>
+      )}
+      <div ref={scrollRef} className="overflow-auto relative text-gray-900" style={{ maxHeight: '70vh' }}>
+        <table style={{ display: 'grid', width: table.getTotalSize() }} className="min-w-full">
+          <thead className="bg-gray-50 sticky top-0 z-10 shadow-sm" style={{ display: 'grid' }}>
+            <tr style={{ display: 'flex', width: '100%' }}>
+              {pinnedColumns.map((column) => renderHeader(column, true))}
+              {paddingLeft > 0 && <th style={{ display: 'flex', width: paddingLeft }} />}
+              {virtualColumns.map((virtualColumn) => renderHeader(centerColumns[virtualColumn.index], false))}
+              {paddingRight > 0 && <th style={{ display: 'flex', width: paddingRight }} />}
             </tr>
-          ))}
-        </tbody>
-      </table>
+          </thead>
+          <tbody
+            className="bg-white"
+            style={{ display: 'grid', height: rowVirtualizer.getTotalSize(), position: 'relative' }}
+          >
+            {rowVirtualizer.getVirtualItems().map((virtualRow) => {
+              const row = rows[virtualRow.index];
+              const pinnedCells = row.getLeftVisibleCells();
+              const centerCells = row.getCenterVisibleCells();
+              return (
+                <tr
+                  key={row.id}
+                  data-index={virtualRow.index}
+                  ref={(node) => rowVirtualizer.measureElement(node)}
+                  onClick={() => !selectionMode && onRowClick?.(row.original)}
+                  className={`group border-b border-gray-200 ${
+                    !selectionMode && onRowClick ? 'cursor-pointer hover:bg-gray-50' : ''
+                  }`}
+                  style={{
+                    display: 'flex',
+                    position: 'absolute',
+                    transform: `translateY(${virtualRow.start}px)`,
+                    width: '100%',
+                  }}
+                >
+                  {pinnedCells.map((cell) => (
+                    <td
+                      key={cell.id}
+                      className="px-6 py-3 text-sm text-gray-900 bg-white group-hover:bg-gray-50 border-r border-gray-100"
+                      style={{ display: 'flex', width: cell.column.getSize(), ...pinnedStyle(cell.column) }}
+                    >
+                      <div className="min-w-0 w-full">{flexRender(cell.column.columnDef.cell, cell.getContext())}</div>
+                    </td>
+                  ))}
+                  {paddingLeft > 0 && <td style={{ display: 'flex', width: paddingLeft }} />}
+                  {virtualColumns.map((virtualColumn) => {
+                    const cell = centerCells[virtualColumn.index];
+                    return (
+                      <td
+                        key={cell.id}
+                        className="px-6 py-3 text-sm text-gray-900"
+                        style={{ display: 'flex', width: cell.column.getSize() }}
+                      >
+                        <div className="min-w-0 w-full">{flexRender(cell.column.columnDef.cell, cell.getContext())}</div>
+                      </td>
+                    );
+                  })}
+                  {paddingRight > 0 && <td style={{ display: 'flex', width: paddingRight }} />}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
     </div>
   );
 };
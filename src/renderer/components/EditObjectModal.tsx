@@ -1,5 +1,9 @@
 import { useState, useEffect } from 'react';
-import { updateObject, getObjectById, initializeWeaviate } from '../lib/weaviate';
+import { Beacon, isObjectType, isReferenceType, NestedProperty, toBeacon, uuidValueError } from '../lib/weaviate';
+import { useWeaviateClient } from '../lib/weaviate-context';
+import { ReferenceEditor } from './ReferenceEditor';
+import { NestedObjectField } from './NestedObjectField';
+import { DATA_TYPE_FIELDS } from './DataTypeFields';
 
 interface EditObjectModalProps {
   isOpen: boolean;
@@ -11,6 +15,7 @@ interface EditObjectModalProps {
     name: string;
     dataType?: string[];
     description?: string;
+    nestedProperties?: NestedProperty[];
   }>;
 }
 
@@ -22,13 +27,17 @@ export function EditObjectModal({
   objectId,
   properties,
 }: EditObjectModalProps) {
+  const client = useWeaviateClient();
   const [formData, setFormData] = useState<Record<string, unknown>>({});
   const [loading, setLoading] = useState(false);
   const [loadingData, setLoadingData] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // References are saved as they're edited, so even Cancel leaves the table stale
+  const [referencesChanged, setReferencesChanged] = useState(false);
 
   useEffect(() => {
     if (isOpen && objectId) {
+      setReferencesChanged(false);
       loadObjectData();
     }
   }, [isOpen, objectId]);
@@ -37,8 +46,7 @@ export function EditObjectModal({
     setLoadingData(true);
     setError(null);
     try {
-      await initializeWeaviate();
-      const data = await getObjectById(collectionName, objectId);
+      const data = await client.getObjectById(collectionName, objectId);
       if (data) {
         setFormData(data);
       } else {
@@ -72,14 +80,49 @@ export function EditObjectModal({
     setFormData({ ...formData, [propertyName]: array.filter((_, i) => i !== index) });
   };
 
+  const addReference = async (propertyName: string, target: { className: string; id: string }) => {
+    await client.addReference(collectionName, objectId, propertyName, target);
+    setReferencesChanged(true);
+    setFormData((current) => ({
+      ...current,
+      [propertyName]: [...((current[propertyName] as Beacon[]) || []), toBeacon(target.className, target.id)],
+    }));
+  };
+
+  const removeReference = async (propertyName: string, reference: Beacon) => {
+    await client.deleteReference(collectionName, objectId, propertyName, reference.beacon);
+    setReferencesChanged(true);
+    setFormData((current) => ({
+      ...current,
+      [propertyName]: ((current[propertyName] as Beacon[]) || []).filter((ref) => ref.beacon !== reference.beacon),
+    }));
+  };
+
+  const handleClose = () => {
+    if (referencesChanged) {
+      onSuccess();
+    }
+    onClose();
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const uuidError = uuidValueError(properties, formData);
+    if (uuidError) {
+      setError(uuidError);
+      return;
+    }
     setLoading(true);
     setError(null);
 
     try {
-      await initializeWeaviate();
-      await updateObject(collectionName, objectId, formData);
+      // References were already saved one by one
+      const changes = Object.fromEntries(
+        Object.entries(formData).filter(
+          ([name]) => !isReferenceType(properties.find((p) => p.name === name)?.dataType?.[0] ?? ''),
+        ),
+      );
+      await client.updateObject(collectionName, objectId, changes);
       onSuccess();
       onClose();
     } catch (err) {
@@ -91,11 +134,51 @@ export function EditObjectModal({
 
   if (!isOpen) return null;
 
-  const renderField = (prop: { name: string; dataType?: string[]; description?: string }) => {
+  const renderField = (prop: {
+    name: string;
+    dataType?: string[];
+    description?: string;
+    nestedProperties?: NestedProperty[];
+  }) => {
     const dataType = prop.dataType?.[0] || 'string';
     const isArray = dataType.includes('[]');
     const baseType = isArray ? dataType.replace('[]', '') : dataType;
 
+    if (isReferenceType(dataType)) {
+      return (
+        <ReferenceEditor
+          key={prop.name}
+          property={prop}
+          references={(formData[prop.name] as Beacon[]) || []}
+          onAdd={(target) => addReference(prop.name, target)}
+          onRemove={(reference) => removeReference(prop.name, reference)}
+        />
+      );
+    }
+
+    const TypeField = DATA_TYPE_FIELDS[dataType];
+    if (TypeField) {
+      return (
+        <TypeField
+          key={prop.name}
+          property={prop}
+          value={formData[prop.name]}
+          onChange={(value) => handleFieldChange(prop.name, value)}
+        />
+      );
+    }
+
+    if (isObjectType(dataType)) {
+      return (
+        <NestedObjectField
+          key={prop.name}
+          property={prop}
+          value={formData[prop.name]}
+          onChange={(value) => handleFieldChange(prop.name, value)}
+        />
+      );
+    }
+
     if (isArray) {
       const array = (formData[prop.name] as string[]) || [];
       return (
@@ -235,7 +318,7 @@ export function EditObjectModal({
             <div className="flex gap-2 justify-end">
               <button
                 type="button"
-                onClick={onClose}
+                onClick={handleClose}
                 className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
               >
                 Cancel
@@ -0,0 +1,43 @@
+import { WeaviateError } from '../lib/weaviate';
+
+interface ErrorDetailsProps {
+  error: string | Error;
+}
+
+// Renders just the message for plain errors; for Weaviate errors also the HTTP
+// status and each GraphQL error with where it happened
+export function ErrorDetails({ error }: ErrorDetailsProps) {
+  if (!(error instanceof WeaviateError)) {
+    return <p className="text-red-700">{typeof error === 'string' ? error : error.message}</p>;
+  }
+
+  const details = error.graphqlErrors;
+
+  return (
+    <div className="text-red-700">
+      <p className="font-medium">
+        {details.length > 1 ? `${details.length} errors from Weaviate` : error.message}
+        {error.status !== null && error.status !== 200 && (
+          <span className="ml-2 text-xs font-normal text-red-500">HTTP {error.status}</span>
+        )}
+      </p>
+      {details.length > 0 && (
+        <ul className="mt-2 space-y-1 text-sm">
+          {details.map((detail, index) => (
+            <li key={index}>
+              {details.length > 1 && <span>{detail.message}</span>}
+              {detail.path && detail.path.length > 0 && (
+                <span className="ml-2 font-mono text-xs text-red-500">at {detail.path.join('.')}</span>
+              )}
+              {detail.locations?.map((location) => (
+                <span key={`${location.line}:${location.column}`} className="ml-2 text-xs text-red-500">
+                  line {location.line}, column {location.column}
+                </span>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useRef, useState } from 'react';
+import { CollectionData } from '../lib/weaviate';
+import { EXPORT_FORMATS, ExportFormat, exportObjects } from '../lib/export';
+import { createFileSink } from '../lib/files';
+import { ErrorDetails } from './ErrorDetails';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  collectionName: string;
+  // Property columns to export, in order
+  properties: string[];
+  // What's being exported, e.g. "all objects" or "objects matching the filter"
+  scope: string;
+  // Expected number of objects, when known
+  total: number | null;
+  loadPages: (includeVector: boolean) => AsyncIterable<CollectionData[]>;
+}
+
+type ExportState =
+  | { status: 'idle' }
+  | { status: 'running'; exported: number }
+  | { status: 'done'; exported: number; fileName: string }
+  | { status: 'cancelled'; exported: number };
+
+export function ExportModal({ isOpen, onClose, collectionName, properties, scope, total, loadPages }: ExportModalProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [includeId, setIncludeId] = useState(true);
+  const [includeVector, setIncludeVector] = useState(false);
+  const [includeMetadata, setIncludeMetadata] = useState(false);
+  const [state, setState] = useState<ExportState>({ status: 'idle' });
+  const [error, setError] = useState<string | Error | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const running = state.status === 'running';
+
+  useEffect(() => {
+    if (isOpen) {
+      setState({ status: 'idle' });
+      setError(null);
+    }
+  }, [isOpen]);
+
+  // Stop a running export if the modal goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    const { extension, label } = EXPORT_FORMATS[format];
+    let sink;
+    try {
+      sink = await createFileSink(`Export ${collectionName}`, `${collectionName}.${extension}`, [
+        { name: label, extensions: [extension] },
+      ]);
+    } catch (err) {
+      setError(err instanceof Error ? err : 'Failed to create file');
+      return;
+    }
+    if (!sink) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState({ status: 'running', exported: 0 });
+
+    try {
+      const exported = await exportObjects(
+        loadPages(includeVector),
+        sink,
+        properties,
+        { format, includeId, includeVector, includeMetadata },
+        { signal: controller.signal, onProgress: (progress) => setState({ status: 'running', ...progress }) },
+      );
+      setState(
+        controller.signal.aborted
+          ? { status: 'cancelled', exported }
+          : { status: 'done', exported, fileName: sink.name },
+      );
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError(err instanceof Error ? err : 'Export failed');
+      setState({ status: 'idle' });
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const exported = state.status === 'idle' ? 0 : state.exported;
+  const percent = total ? Math.min(100, Math.round((exported / total) * 100)) : null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 text-gray-900"
+      onClick={running ? undefined : handleClose}
+    >
+      <div className="bg-white rounded-lg p-6 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold">Export {collectionName}</h2>
+          <button onClick={handleClose} className="text-gray-600 hover:text-gray-800 text-2xl">
+            ×
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <p className="text-gray-700">
+            Exports {scope}
+            {total !== null && ` (${total.toLocaleString()} ${total === 1 ? 'object' : 'objects'})`}.
+          </p>
+
+          <fieldset disabled={running} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+              <div className="flex gap-4">
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((value) => (
+                  <label key={value} className="flex items-center gap-2 cursor-pointer text-sm">
+                    <input type="radio" checked={format === value} onChange={() => setFormat(value)} />
+                    {EXPORT_FORMATS[value].label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className="flex items-center gap-2 cursor-pointer text-sm">
+                <input type="checkbox" checked={includeId} onChange={(e) => setIncludeId(e.target.checked)} className="rounded" />
+                Include UUID
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer text-sm">
+                <input
+                  type="checkbox"
+                  checked={includeVector}
+                  onChange={(e) => setIncludeVector(e.target.checked)}
+                  className="rounded"
+                />
+                Include vectors
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer text-sm">
+                <input
+                  type="checkbox"
+                  checked={includeMetadata}
+                  onChange={(e) => setIncludeMetadata(e.target.checked)}
+                  className="rounded"
+                />
+                Include metadata (timestamps, scores)
+              </label>
+            </div>
+          </fieldset>
+
+          {state.status !== 'idle' && (
+            <div className="space-y-1">
+              <div className="h-2 bg-gray-200 rounded overflow-hidden">
+                <div
+                  className={`h-full ${state.status === 'cancelled' ? 'bg-gray-400' : 'bg-blue-600'} ${percent === null && running ? 'animate-pulse w-full' : ''}`}
+                  style={percent !== null ? { width: `${state.status === 'done' ? 100 : percent}%` } : undefined}
+                />
+              </div>
+              <p className="text-sm text-gray-600">
+                {state.status === 'running' &&
+                  `Exported ${exported.toLocaleString()}${total !== null ? ` of ${total.toLocaleString()}` : ''} objects…`}
+                {state.status === 'done' && `Exported ${exported.toLocaleString()} objects to ${state.fileName}`}
+                {state.status === 'cancelled' && 'Export cancelled; the partial file was removed.'}
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              <ErrorDetails error={error} />
+            </div>
+          )}
+
+          {running ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="w-full px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={handleExport}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              {state.status === 'done' ? 'Export again' : 'Export'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+import { useState, useEffect } from 'react';
+import {
+  compileFilter,
+  createCondition,
+  createGroup,
+  FILTER_OPERATOR_LABELS,
+  FilterCondition,
+  FilterGroup,
+  FilterNode,
+  FilterOperator,
+  operatorsFor,
+  SavedFilter,
+  WhereFilter,
+} from '../lib/filters';
+import { getCollectionPrefs, saveCollectionPrefs } from '../lib/preferences';
+import { useWeaviateClient } from '../lib/weaviate-context';
+
+type PropertyInfo = { name: string; dataType: string[] };
+
+interface FilterPanelProps {
+  collectionName: string;
+  properties: PropertyInfo[];
+  filter: FilterGroup;
+  onChange: (filter: FilterGroup) => void;
+  // null clears the filter
+  onApply: (where: WhereFilter | null) => void;
+}
+
+// Boolean pickers show "true" first, so start from that rather than empty
+function initialValue(operator: FilterOperator, dataType: string): string {
+  const isList = operator === 'ContainsAny' || operator === 'ContainsAll';
+  return operator === 'IsNull' || (dataType === 'boolean' && !isList) ? 'true' : '';
+}
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function ValueInput({
+  condition,
+  dataType,
+  onChange,
+}: {
+  condition: FilterCondition;
+  dataType: string;
+  onChange: (value: string) => void;
+}) {
+  const base = dataType.replace('[]', '');
+  const isList = condition.operator === 'ContainsAny' || condition.operator === 'ContainsAll';
+
+  if (condition.operator === 'IsNull' || (base === 'boolean' && !isList)) {
+    return (
+      <select value={condition.value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+        <option value="true">true</option>
+        <option value="false">false</option>
+      </select>
+    );
+  }
+
+  if (condition.operator === 'WithinGeoRange') {
+    const [latitude = '', longitude = '', distance = ''] = condition.value.split(',');
+    const update = (index: number, part: string) => {
+      const parts = [latitude, longitude, distance];
+      parts[index] = part;
+      onChange(parts.join(','));
+    };
+    return (
+      <div className="flex gap-1">
+        {['Latitude', 'Longitude', 'Meters'].map((label, index) => (
+          <input
+            key={label}
+            type="number"
+            step="any"
+            placeholder={label}
+            value={[latitude, longitude, distance][index]}
+            onChange={(e) => update(index, e.target.value)}
+            className={`${inputClass} w-24`}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  if (isList) {
+    return (
+      <input
+        type="text"
+        value={condition.value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={base === 'date' ? '2024-01-01, 2024-06-30' : 'value1, value2, …'}
+        className={`${inputClass} flex-1`}
+      />
+    );
+  }
+
+  if (base === 'int' || base === 'number') {
+    return (
+      <input
+        type="number"
+        step={base === 'int' ? 1 : 'any'}
+        value={condition.value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${inputClass} w-40`}
+      />
+    );
+  }
+
+  if (base === 'date') {
+    return (
+      <input
+        type="datetime-local"
+        value={condition.value}
+        onChange={(e) => onChange(e.target.value)}
+        className={inputClass}
+      />
+    );
+  }
+
+  return (
+    <input
+      type="text"
+      value={condition.value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={condition.operator === 'Like' ? 'e.g. *phone* or ca?' : 'Value'}
+      className={`${inputClass} flex-1`}
+    />
+  );
+}
+
+function ConditionEditor({
+  condition,
+  properties,
+  onChange,
+  onRemove,
+}: {
+  condition: FilterCondition;
+  properties: PropertyInfo[];
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+}) {
+  const dataType = properties.find((p) => p.name === condition.property)?.dataType[0] ?? 'text';
+  const operators = operatorsFor(dataType);
+
+  const handlePropertyChange = (property: string) => {
+    const nextType = properties.find((p) => p.name === property)?.dataType[0] ?? 'text';
+    const operator = operatorsFor(nextType)[0];
+    onChange({ ...condition, property, operator, value: initialValue(operator, nextType) });
+  };
+
+  const handleOperatorChange = (operator: FilterOperator) => {
+    // Values don't carry over between list, geo and null checks
+    const keepValue = !['ContainsAny', 'ContainsAll', 'IsNull', 'WithinGeoRange'].some(
+      (op) => op === operator || op === condition.operator,
+    );
+    onChange({ ...condition, operator, value: keepValue ? condition.value : initialValue(operator, dataType) });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select value={condition.property} onChange={(e) => handlePropertyChange(e.target.value)} className={inputClass}>
+        <option value="">Property…</option>
+        {properties.map((p) => (
+          <option key={p.name} value={p.name}>
+            {p.name}
+          </option>
+        ))}
+      </select>
+      <select
+        value={condition.operator}
+        onChange={(e) => handleOperatorChange(e.target.value as FilterOperator)}
+        disabled={!condition.property}
+        className={inputClass}
+      >
+        {operators.map((op) => (
+          <option key={op} value={op}>
+            {FILTER_OPERATOR_LABELS[op]}
+          </option>
+        ))}
+      </select>
+      {condition.property && (
+        <ValueInput condition={condition} dataType={dataType} onChange={(value) => onChange({ ...condition, value })} />
+      )}
+      <button onClick={onRemove} className="text-gray-400 hover:text-red-600 px-1" title="Remove condition">
+        ✕
+      </button>
+    </div>
+  );
+}
+
+function GroupEditor({
+  group,
+  properties,
+  onChange,
+  onRemove,
+}: {
+  group: FilterGroup;
+  properties: PropertyInfo[];
+  onChange: (group: FilterGroup) => void;
+  // Absent for the root group
+  onRemove?: () => void;
+}) {
+  const updateChild = (index: number, child: FilterNode) => {
+    onChange({ ...group, children: group.children.map((c, i) => (i === index ? child : c)) });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...group, children: group.children.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={group.operator}
+          onChange={(e) => onChange({ ...group, operator: e.target.value as 'And' | 'Or' })}
+          className={`${inputClass} font-medium`}
+        >
+          <option value="And">All of (And)</option>
+          <option value="Or">Any of (Or)</option>
+        </select>
+        <button
+          onClick={() => onChange({ ...group, children: [...group.children, createCondition()] })}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Condition
+        </button>
+        <button
+          onClick={() => onChange({ ...group, children: [...group.children, createGroup(group.operator === 'And' ? 'Or' : 'And')] })}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Group
+        </button>
+        {onRemove && (
+          <button onClick={onRemove} className="text-sm text-gray-400 hover:text-red-600" title="Remove group">
+            Remove group
+          </button>
+        )}
+      </div>
+      <div className="pl-4 border-l-2 border-gray-200 space-y-2">
+        {group.children.length === 0 && <p className="text-sm text-gray-400">No conditions</p>}
+        {group.children.map((child, index) =>
+          child.kind === 'group' ? (
+            <GroupEditor
+              key={child.id}
+              group={child}
+              properties={properties}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+            />
+          ) : (
+            <ConditionEditor
+              key={child.id}
+              condition={child}
+              properties={properties}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+            />
+          ),
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function FilterPanel({ collectionName, properties, filter, onChange, onApply }: FilterPanelProps) {
+  const client = useWeaviateClient();
+  const [error, setError] = useState<string | null>(null);
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
+  const [filterName, setFilterName] = useState('');
+
+  useEffect(() => {
+    getCollectionPrefs(client.profileId, collectionName)
+      .then((prefs) => setSavedFilters(prefs.savedFilters ?? []))
+      .catch((err) => console.error('Error loading saved filters:', err));
+  }, [client, collectionName]);
+
+  const apply = (group: FilterGroup) => {
+    try {
+      onApply(compileFilter(group, properties));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid filter');
+    }
+  };
+
+  const handleClear = () => {
+    onChange(createGroup());
+    onApply(null);
+    setError(null);
+  };
+
+  const storeSavedFilters = async (next: SavedFilter[]) => {
+    setSavedFilters(next);
+    try {
+      await saveCollectionPrefs(client.profileId, collectionName, { savedFilters: next });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save filter');
+    }
+  };
+
+  const handleSave = async () => {
+    const name = filterName.trim();
+    if (!name) {
+      setError('Enter a name to save this filter');
+      return;
+    }
+    await storeSavedFilters([...savedFilters.filter((f) => f.name !== name), { name, filter }]);
+    setFilterName('');
+    setError(null);
+  };
+
+  const handleLoad = (name: string) => {
+    const saved = savedFilters.find((f) => f.name === name);
+    if (saved) {
+      onChange(saved.filter);
+      apply(saved.filter);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-3">
+      <GroupEditor group={filter} properties={properties} onChange={onChange} />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">{error}</div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-gray-200">
+        <button
+          onClick={() => apply(filter)}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+        >
+          Apply
+        </button>
+        <button onClick={handleClear} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm">
+          Clear
+        </button>
+
+        <div className="flex items-center gap-2 ml-auto">
+          {savedFilters.length > 0 && (
+            <>
+              <select value="" onChange={(e) => handleLoad(e.target.value)} className={inputClass}>
+                <option value="">Saved filters…</option>
+                {savedFilters.map((f) => (
+                  <option key={f.name} value={f.name}>
+                    {f.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value=""
+                onChange={(e) => storeSavedFilters(savedFilters.filter((f) => f.name !== e.target.value))}
+                className={`${inputClass} text-gray-500`}
+                title="Delete a saved filter"
+              >
+                <option value="">Delete…</option>
+                {savedFilters.map((f) => (
+                  <option key={f.name} value={f.name}>
+                    {f.name}
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
+          <input
+            type="text"
+            value={filterName}
+            onChange={(e) => setFilterName(e.target.value)}
+            placeholder="Filter name"
+            className={`${inputClass} w-36`}
+          />
+          <button onClick={handleSave} className="px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,341 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  ColumnMapping,
+  errorReportCsv,
+  guessMapping,
+  ImportResult,
+  importObjects,
+  ParsedFile,
+  parseImportFile,
+} from '../lib/import';
+import { createFileSink } from '../lib/files';
+import { useWeaviateClient } from '../lib/weaviate-context';
+import { ErrorDetails } from './ErrorDetails';
+
+interface ImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  collectionName: string;
+  properties: Array<{
+    name: string;
+    dataType?: string[];
+    description?: string;
+  }>;
+}
+
+type Step = 'file' | 'mapping' | 'importing' | 'done';
+
+const DEFAULT_BATCH_SIZE = 100;
+// Errors listed in the modal; the report has all of them
+const SHOWN_ERRORS = 20;
+
+const selectClass = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function ColumnSelect({
+  columns,
+  value,
+  onChange,
+}: {
+  columns: string[];
+  value: string;
+  onChange: (column: string) => void;
+}) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={selectClass}>
+      <option value="">— skip —</option>
+      {columns.map((column) => (
+        <option key={column} value={column}>
+          {column}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export function ImportModal({ isOpen, onClose, onSuccess, collectionName, properties }: ImportModalProps) {
+  const client = useWeaviateClient();
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [idColumn, setIdColumn] = useState('');
+  const [vectorColumn, setVectorColumn] = useState('');
+  const [batchSize, setBatchSize] = useState(DEFAULT_BATCH_SIZE);
+  const [processed, setProcessed] = useState(0);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [cancelled, setCancelled] = useState(false);
+  const [error, setError] = useState<string | Error | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('file');
+      setFileName('');
+      setParsed(null);
+      setResult(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    try {
+      const contents = parseImportFile(file.name, await file.text());
+      if (contents.records.length === 0) {
+        throw new Error('The file has no records');
+      }
+      const guessed = guessMapping(contents.columns, properties);
+      setFileName(file.name);
+      setParsed(contents);
+      setMapping(guessed.mapping);
+      setIdColumn(guessed.idColumn ?? '');
+      setVectorColumn(guessed.vectorColumn ?? '');
+      setStep('mapping');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStep('importing');
+    setProcessed(0);
+    setResult({ imported: 0, errors: [] });
+    setCancelled(false);
+    setError(null);
+
+    try {
+      const finalResult = await importObjects(
+        client,
+        parsed.records,
+        {
+          className: collectionName,
+          properties,
+          mapping,
+          idColumn: idColumn || undefined,
+          vectorColumn: vectorColumn || undefined,
+          batchSize,
+        },
+        {
+          signal: controller.signal,
+          onProgress: ({ processed: count, ...progress }) => {
+            setProcessed(count);
+            setResult(progress);
+          },
+        },
+      );
+      setResult(finalResult);
+      setCancelled(controller.signal.aborted);
+      if (finalResult.imported > 0) {
+        onSuccess();
+      }
+    } catch (err) {
+      console.error('Import failed:', err);
+      setError(err instanceof Error ? err : 'Import failed');
+    } finally {
+      abortRef.current = null;
+      setStep('done');
+    }
+  };
+
+  const handleDownloadReport = async () => {
+    if (!result) return;
+    try {
+      const sink = await createFileSink('Save import errors', `${collectionName}-import-errors.csv`, [
+        { name: 'CSV', extensions: ['csv'] },
+      ]);
+      if (!sink) return;
+      await sink.write(errorReportCsv(result.errors));
+      await sink.close();
+    } catch (err) {
+      setError(err instanceof Error ? err : 'Failed to save error report');
+    }
+  };
+
+  const total = parsed?.records.length ?? 0;
+  const mappedCount = Object.values(mapping).filter(Boolean).length;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 text-gray-900"
+      onClick={step === 'importing' ? undefined : handleClose}
+    >
+      <div
+        className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold">Import into {collectionName}</h2>
+          <button onClick={handleClose} className="text-gray-600 hover:text-gray-800 text-2xl">
+            ×
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {step === 'file' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">File</label>
+              <input
+                type="file"
+                accept=".csv,.json,.jsonl,.ndjson"
+                onChange={handleFileChange}
+                className="block w-full text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                CSV with a header row, a JSON array of objects, or JSON Lines (one object per line).
+              </p>
+            </div>
+          )}
+
+          {step === 'mapping' && parsed && (
+            <>
+              <p className="text-gray-700">
+                {fileName}: {total.toLocaleString()} {total === 1 ? 'record' : 'records'}, {parsed.columns.length}{' '}
+                columns. Choose the column for each property; values are converted to the property&apos;s type.
+              </p>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 pr-4 font-medium">Property</th>
+                    <th className="py-1 font-medium">Column</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {properties.map((prop) => (
+                    <tr key={prop.name}>
+                      <td className="py-1 pr-4">
+                        {prop.name}
+                        {prop.dataType && <span className="text-gray-500 ml-1">[{prop.dataType[0]}]</span>}
+                      </td>
+                      <td className="py-1">
+                        <ColumnSelect
+                          columns={parsed.columns}
+                          value={mapping[prop.name] ?? ''}
+                          onChange={(column) => setMapping({ ...mapping, [prop.name]: column })}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="border-t border-gray-200">
+                    <td className="py-1 pr-4 text-gray-600">UUID (optional)</td>
+                    <td className="py-1">
+                      <ColumnSelect columns={parsed.columns} value={idColumn} onChange={setIdColumn} />
+                    </td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 pr-4 text-gray-600">Vector (optional)</td>
+                    <td className="py-1">
+                      <ColumnSelect columns={parsed.columns} value={vectorColumn} onChange={setVectorColumn} />
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Batch size</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="1000"
+                  value={batchSize}
+                  onChange={(e) => setBatchSize(Math.max(1, parseInt(e.target.value) || DEFAULT_BATCH_SIZE))}
+                  className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setStep('file')}
+                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={mappedCount === 0}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Import {total.toLocaleString()} {total === 1 ? 'Object' : 'Objects'}
+                </button>
+              </div>
+            </>
+          )}
+
+          {(step === 'importing' || step === 'done') && result && (
+            <div className="space-y-1">
+              <div className="h-2 bg-gray-200 rounded overflow-hidden">
+                <div
+                  className={`h-full ${cancelled ? 'bg-gray-400' : 'bg-blue-600'}`}
+                  style={{ width: `${total ? Math.round((processed / total) * 100) : 0}%` }}
+                />
+              </div>
+              <p className="text-sm text-gray-600">
+                {step === 'importing' ? 'Importing… ' : cancelled ? 'Import cancelled. ' : 'Import finished. '}
+                {processed.toLocaleString()} of {total.toLocaleString()} processed, {result.imported.toLocaleString()}{' '}
+                imported, {result.errors.length.toLocaleString()} failed.
+              </p>
+            </div>
+          )}
+
+          {step === 'importing' && (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="w-full px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+          )}
+
+          {step === 'done' && result && result.errors.length > 0 && (
+            <div className="space-y-2">
+              <ul className="text-sm text-red-700 bg-red-50 border border-red-200 rounded px-4 py-3 space-y-1 max-h-48 overflow-y-auto">
+                {result.errors.slice(0, SHOWN_ERRORS).map((e, i) => (
+                  <li key={i}>
+                    Record {e.row}
+                    {e.id && <span className="font-mono"> ({e.id})</span>}: {e.message}
+                  </li>
+                ))}
+                {result.errors.length > SHOWN_ERRORS && (
+                  <li className="text-gray-600">…and {result.errors.length - SHOWN_ERRORS} more</li>
+                )}
+              </ul>
+              <button
+                onClick={handleDownloadReport}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+              >
+                Download error report
+              </button>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              <ErrorDetails error={error} />
+            </div>
+          )}
+
+          {step === 'done' && (
+            <button onClick={handleClose} className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { NestedProperty } from '../lib/weaviate';
+
+type NestedValue = Record<string, unknown>;
+
+interface NestedObjectFieldProps {
+  property: {
+    name: string;
+    dataType?: string[];
+    description?: string;
+    nestedProperties?: NestedProperty[];
+  };
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+// Dates are shown and entered in UTC, like the top-level date fields
+function toDateInput(value: unknown): string {
+  if (typeof value !== 'string' || !value) return '';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toISOString().slice(0, 16);
+}
+
+function fromInput(baseType: string, raw: string): unknown {
+  switch (baseType) {
+    case 'int':
+    case 'number': {
+      const parsed = baseType === 'int' ? parseInt(raw) : parseFloat(raw);
+      return isNaN(parsed) ? undefined : parsed;
+    }
+    case 'date': {
+      const date = new Date(`${raw}Z`);
+      return isNaN(date.getTime()) ? undefined : date.toISOString();
+    }
+    default:
+      return raw;
+  }
+}
+
+function Label({ property, typeLabel }: { property: NestedProperty; typeLabel: string }) {
+  return (
+    <>
+      {property.name} {property.description && <span className="text-gray-600">({property.description})</span>}
+      <span className="text-gray-600 ml-2">[{typeLabel}]</span>
+    </>
+  );
+}
+
+function PrimitiveInput({
+  baseType,
+  value,
+  onChange,
+}: {
+  baseType: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}) {
+  if (baseType === 'date') {
+    return (
+      <input
+        type="datetime-local"
+        value={toDateInput(value)}
+        onChange={(e) => onChange(fromInput(baseType, e.target.value))}
+        className="flex-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+      />
+    );
+  }
+  return (
+    <input
+      type={baseType === 'int' || baseType === 'number' ? 'number' : 'text'}
+      value={value === undefined || value === null ? '' : String(value)}
+      onChange={(e) => onChange(fromInput(baseType, e.target.value))}
+      className="flex-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+    />
+  );
+}
+
+function NestedValueInput({
+  property,
+  value,
+  onChange,
+}: {
+  property: NestedProperty;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}) {
+  const dataType = property.dataType[0] || 'text';
+  const isArray = dataType.endsWith('[]');
+  const baseType = dataType.replace('[]', '');
+
+  if (baseType === 'object') {
+    return <NestedObjectField property={property} value={value} onChange={onChange} />;
+  }
+
+  if (baseType === 'boolean' && !isArray) {
+    return (
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={(value as boolean) || false}
+          onChange={(e) => onChange(e.target.checked)}
+          className="rounded"
+        />
+        <span className="text-sm font-medium text-gray-700">
+          <Label property={property} typeLabel={dataType} />
+        </span>
+      </label>
+    );
+  }
+
+  if (isArray) {
+    const items = Array.isArray(value) ? value : [];
+    return (
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          <Label property={property} typeLabel={dataType} />
+        </label>
+        {items.map((item, index) => (
+          <div key={index} className="flex gap-2">
+            {baseType === 'boolean' ? (
+              <select
+                value={String(item ?? false)}
+                onChange={(e) => onChange(items.map((v, i) => (i === index ? e.target.value === 'true' : v)))}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="true">true</option>
+                <option value="false">false</option>
+              </select>
+            ) : (
+              <PrimitiveInput
+                baseType={baseType}
+                value={item}
+                onChange={(next) => onChange(items.map((v, i) => (i === index ? next : v)))}
+              />
+            )}
+            <button
+              type="button"
+              onClick={() => onChange(items.filter((_, i) => i !== index))}
+              className="px-3 py-2 text-red-600 hover:text-red-800"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange([...items, baseType === 'boolean' ? false : undefined])}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Add Item
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">
+        <Label property={property} typeLabel={dataType} />
+      </label>
+      <PrimitiveInput baseType={baseType} value={value} onChange={onChange} />
+    </div>
+  );
+}
+
+function ObjectFields({
+  nestedProperties,
+  value,
+  onChange,
+}: {
+  nestedProperties: NestedProperty[];
+  value: NestedValue;
+  onChange: (value: NestedValue) => void;
+}) {
+  return (
+    <div className="space-y-3">
+      {nestedProperties.map((nested) => (
+        <NestedValueInput
+          key={nested.name}
+          property={nested}
+          value={value[nested.name]}
+          onChange={(next) => onChange({ ...value, [nested.name]: next })}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * An `object` or `object[]` property as a collapsible sub-form, with a field
+ * per nested property. Nested objects get sub-forms of their own.
+ */
+export function NestedObjectField({ property, value, onChange }: NestedObjectFieldProps) {
+  const dataType = property.dataType?.[0] || 'object';
+  const nestedProperties = property.nestedProperties ?? [];
+  const isArray = dataType.endsWith('[]');
+  const items: NestedValue[] = isArray && Array.isArray(value) ? value : [];
+
+  return (
+    <details open className="border border-gray-200 rounded">
+      <summary className="px-3 py-2 cursor-pointer text-sm font-medium text-gray-700 select-none">
+        {property.name} {property.description && <span className="text-gray-600">({property.description})</span>}
+        <span className="text-gray-600 ml-2">[{dataType}]</span>
+      </summary>
+      <div className="px-3 pb-3 pt-1 space-y-3">
+        {!isArray && (
+          <ObjectFields
+            nestedProperties={nestedProperties}
+            value={(value as NestedValue | null) ?? {}}
+            onChange={onChange}
+          />
+        )}
+
+        {isArray &&
+          items.map((item, index) => (
+            <div key={index} className="p-3 border border-gray-200 rounded space-y-2">
+              <div className="flex justify-between items-center text-sm text-gray-600">
+                <span>Item {index + 1}</span>
+                <button
+                  type="button"
+                  onClick={() => onChange(items.filter((_, i) => i !== index))}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </div>
+              <ObjectFields
+                nestedProperties={nestedProperties}
+                value={item ?? {}}
+                onChange={(next) => onChange(items.map((v, i) => (i === index ? next : v)))}
+              />
+            </div>
+          ))}
+
+        {isArray && (
+          <button
+            type="button"
+            onClick={() => onChange([...items, {}])}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            + Add Item
+          </button>
+        )}
+      </div>
+    </details>
+  );
+}
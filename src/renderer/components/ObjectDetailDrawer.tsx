@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react';
+import { Beacon, parseBeacon, WeaviateObject } from '../lib/weaviate';
+import { useWeaviateClient } from '../lib/weaviate-context';
+import { ErrorDetails } from './ErrorDetails';
+
+interface ObjectDetailDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Absent for objects that can't be edited from here
+  onEdit?: () => void;
+  onOpenReference?: (className: string, objectId: string) => void;
+  collectionName: string;
+  objectId: string;
+}
+
+function CopyButton({ text, label = 'Copy' }: { text: string; label?: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error('Error copying to clipboard:', err);
+    }
+  };
+
+  return (
+    <button onClick={handleCopy} className="text-xs text-blue-600 hover:text-blue-800 shrink-0">
+      {copied ? 'Copied' : label}
+    </button>
+  );
+}
+
+// A named vector is either one vector or, for multi-vector encoders, a list of them
+function describeVector(vector: number[] | number[][]): string {
+  if (vector.length > 0 && Array.isArray(vector[0])) {
+    return `${vector.length} × ${(vector[0] as number[]).length} dimensions`;
+  }
+  return `${vector.length} dimensions`;
+}
+
+function isBeaconList(value: unknown): value is Beacon[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => typeof (item as Beacon | null)?.beacon === 'string')
+  );
+}
+
+function formatTime(millis?: number): string {
+  return millis ? new Date(Number(millis)).toLocaleString() : '—';
+}
+
+export function ObjectDetailDrawer({
+  isOpen,
+  onClose,
+  onEdit,
+  onOpenReference,
+  collectionName,
+  objectId,
+}: ObjectDetailDrawerProps) {
+  const client = useWeaviateClient();
+  const [object, setObject] = useState<WeaviateObject | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | Error | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !objectId) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setObject(null);
+    client
+      .getObject(collectionName, objectId)
+      .then((result) => {
+        if (cancelled) return;
+        if (result) {
+          setObject(result);
+        } else {
+          setError('Object not found');
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err : 'Failed to load object');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, isOpen, collectionName, objectId]);
+
+  if (!isOpen) return null;
+
+  const renderValue = (value: unknown) => {
+    if (isBeaconList(value)) {
+      return (
+        <ul className="space-y-1">
+          {value.map((ref) => {
+            const target = parseBeacon(ref.beacon);
+            const targetClass = target?.className;
+            return (
+              <li key={ref.beacon} className="font-mono truncate" title={ref.beacon}>
+                {target && targetClass && onOpenReference ? (
+                  <button
+                    onClick={() => onOpenReference(targetClass, target.id)}
+                    className="text-blue-600 hover:text-blue-800 hover:underline"
+                  >
+                    {targetClass}/{target.id}
+                  </button>
+                ) : (
+                  ref.beacon
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      );
+    }
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  };
+
+  const rawJson = object ? JSON.stringify(object, null, 2) : '';
+  const namedVectors = Object.entries(object?.vectors ?? {});
+
+  const metadata: [string, React.ReactNode][] = object
+    ? [
+        ['Created', formatTime(object.creationTimeUnix)],
+        ['Last updated', formatTime(object.lastUpdateTimeUnix)],
+        ['Vector', object.vector?.length ? `${object.vector.length} dimensions` : '—'],
+        ...namedVectors.map(([name, vector]): [string, React.ReactNode] => [`Vector "${name}"`, describeVector(vector)]),
+        ...(object.tenant ? [['Tenant', object.tenant] as [string, React.ReactNode]] : []),
+      ]
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-40 text-gray-900">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onClose} />
+      <div className="absolute inset-y-0 right-0 w-full max-w-xl bg-white shadow-xl flex flex-col">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-bold">{collectionName} object</h2>
+          <div className="flex gap-2">
+            {onEdit && (
+              <button
+                onClick={onEdit}
+                disabled={!object}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Edit
+              </button>
+            )}
+            <button onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300">
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          {loading && <div className="text-center py-8">Loading object...</div>}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              <ErrorDetails error={error} />
+            </div>
+          )}
+
+          {object && (
+            <>
+              <section>
+                <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-2">Metadata</h3>
+                <dl className="grid grid-cols-[10rem_1fr] gap-x-4 gap-y-2 text-sm">
+                  <dt className="text-gray-600">UUID</dt>
+                  <dd className="flex items-center gap-2 min-w-0">
+                    <span className="font-mono truncate">{object.id}</span>
+                    <CopyButton text={object.id} />
+                  </dd>
+                  {metadata.map(([label, value]) => (
+                    <div key={label} className="contents">
+                      <dt className="text-gray-600">{label}</dt>
+                      <dd>{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </section>
+
+              <section>
+                <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-2">Properties</h3>
+                <dl className="grid grid-cols-[10rem_1fr] gap-x-4 gap-y-2 text-sm">
+                  {Object.entries(object.properties ?? {}).map(([name, value]) => (
+                    <div key={name} className="contents">
+                      <dt className="text-gray-600 truncate" title={name}>
+                        {name}
+                      </dt>
+                      <dd className="break-words whitespace-pre-wrap min-w-0">{renderValue(value)}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </section>
+
+              <section>
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider">Raw JSON</h3>
+                  <CopyButton text={rawJson} label="Copy JSON" />
+                </div>
+                <pre className="bg-gray-50 border border-gray-200 rounded p-3 text-xs overflow-auto max-h-96">
+                  {rawJson}
+                </pre>
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
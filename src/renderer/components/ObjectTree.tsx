@@ -0,0 +1,31 @@
+function formatLeaf(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * A nested value as a tree that starts collapsed to a one-line JSON preview.
+ * Clicks stay inside, so expanding a node in a table doesn't select the row.
+ */
+export function ObjectTree({ value }: { value: unknown }) {
+  if (value === null || typeof value !== 'object') {
+    return <>{formatLeaf(value)}</>;
+  }
+
+  const entries: [string, unknown][] = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item])
+    : Object.entries(value);
+
+  return (
+    <details className="inline-block align-top max-w-full" onClick={(e) => e.stopPropagation()}>
+      <summary className="cursor-pointer truncate text-gray-700">{JSON.stringify(value)}</summary>
+      <ul className="pl-3 border-l border-gray-200 whitespace-normal">
+        {entries.map(([key, child]) => (
+          <li key={key}>
+            <span className="text-gray-500">{key}:</span> <ObjectTree value={child} />
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,31 @@
+import { ConnectionProfile, PROFILE_COLORS } from '../lib/settings';
+
+interface ProfileSwitcherProps {
+  profiles: ConnectionProfile[];
+  activeProfileId: string | null;
+  onSwitch: (profileId: string) => void;
+}
+
+export function ProfileSwitcher({ profiles, activeProfileId, onSwitch }: ProfileSwitcherProps) {
+  const activeProfile = profiles.find((p) => p.id === activeProfileId);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span
+        className={`inline-block h-3 w-3 rounded-full ${PROFILE_COLORS[activeProfile?.color ?? 'gray']}`}
+        title={activeProfile?.weaviateUrl || 'No connection selected'}
+      />
+      <select
+        value={activeProfileId ?? ''}
+        onChange={(e) => onSwitch(e.target.value)}
+        className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { isObjectType, PropertySchema } from '../lib/weaviate';
+
+export const DATA_TYPES = [
+  'string',
+  'text',
+  'int',
+  'number',
+  'boolean',
+  'date',
+  'uuid',
+  'geoCoordinates',
+  'phoneNumber',
+  'blob',
+  'object',
+  'string[]',
+  'text[]',
+  'int[]',
+  'number[]',
+  'boolean[]',
+  'date[]',
+  'uuid[]',
+  'object[]',
+];
+
+// Weaviate doesn't allow these inside object properties
+const TOP_LEVEL_ONLY_TYPES = ['geoCoordinates', 'phoneNumber'];
+
+const TOKENIZATIONS = ['word', 'lowercase', 'whitespace', 'field', 'trigram'];
+
+export function emptyProperty(): PropertySchema {
+  return { name: '', dataType: ['string'], description: '' };
+}
+
+function isText(dataType: string): boolean {
+  const base = dataType.replace('[]', '');
+  return base === 'text' || base === 'string';
+}
+
+interface PropertyEditorProps {
+  property: PropertySchema;
+  onChange: (property: PropertySchema) => void;
+  // Absent when the property can't be removed
+  onRemove?: () => void;
+  // Skipping vectorization only means something with a vectorizer
+  hasVectorizer: boolean;
+  // Collections a reference property can point to
+  referenceTargets?: string[];
+  // Inside an object property; nested properties are never vectorized on their own
+  nested?: boolean;
+}
+
+/** Name, type and description on one row, with index options folded away below. */
+export function PropertyEditor({
+  property,
+  onChange,
+  onRemove,
+  hasVectorizer,
+  referenceTargets = [],
+  nested = false,
+}: PropertyEditorProps) {
+  const [showOptions, setShowOptions] = useState(false);
+  const dataType = property.dataType[0] || 'string';
+  const text = isText(dataType);
+  const object = isObjectType(dataType);
+  const nestedProperties = property.nestedProperties ?? [];
+
+  const update = (changes: Partial<PropertySchema>) => onChange({ ...property, ...changes });
+
+  const handleDataTypeChange = (next: string) => {
+    if (isObjectType(next)) {
+      // Objects are described by their nested properties, not index options
+      setShowOptions(false);
+      update({
+        dataType: [next],
+        tokenization: undefined,
+        indexFilterable: undefined,
+        indexSearchable: undefined,
+        skipVectorization: undefined,
+        nestedProperties: nestedProperties.length > 0 ? nestedProperties : [emptyProperty()],
+      });
+      return;
+    }
+    // Tokenization and searchability only apply to text; blobs can't be indexed at all
+    update(
+      isText(next)
+        ? { dataType: [next], nestedProperties: undefined }
+        : {
+            dataType: [next],
+            tokenization: undefined,
+            indexSearchable: undefined,
+            indexFilterable: next === 'blob' ? undefined : property.indexFilterable,
+            nestedProperties: undefined,
+          },
+    );
+  };
+
+  const updateNested = (index: number, updated: PropertySchema) => {
+    update({ nestedProperties: nestedProperties.map((p, i) => (i === index ? updated : p)) });
+  };
+
+  return (
+    <div className="p-3 border border-gray-200 rounded space-y-2">
+      <div className="flex gap-2 items-start">
+        <div className="flex-1">
+          <input
+            type="text"
+            value={property.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Property name"
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+        </div>
+        <div className="flex-1">
+          <select
+            value={dataType}
+            onChange={(e) => handleDataTypeChange(e.target.value)}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+          >
+            {DATA_TYPES.filter((type) => !nested || !TOP_LEVEL_ONLY_TYPES.includes(type)).map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+            {referenceTargets.length > 0 && (
+              <optgroup label="Reference to">
+                {referenceTargets.map((target) => (
+                  <option key={target} value={target}>
+                    → {target}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </div>
+        <div className="flex-1">
+          <input
+            type="text"
+            value={property.description ?? ''}
+            onChange={(e) => update({ description: e.target.value })}
+            placeholder="Description (optional)"
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+        </div>
+        {!object && (
+          <button
+            type="button"
+            onClick={() => setShowOptions((open) => !open)}
+            className="px-2 py-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            {showOptions ? 'Hide options' : 'Options'}
+          </button>
+        )}
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="px-2 py-1 text-red-600 hover:text-red-800 text-sm"
+          >
+            ×
+          </button>
+        )}
+      </div>
+
+      {showOptions && (
+        <div className="flex flex-wrap gap-x-4 gap-y-2 items-center text-sm pl-1">
+          {text && (
+            <label className="flex items-center gap-2">
+              Tokenization
+              <select
+                value={property.tokenization ?? ''}
+                onChange={(e) => update({ tokenization: e.target.value || undefined })}
+                className="px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                <option value="">Default</option>
+                {TOKENIZATIONS.map((tokenization) => (
+                  <option key={tokenization} value={tokenization}>
+                    {tokenization}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {dataType !== 'blob' && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={property.indexFilterable ?? true}
+                onChange={(e) => update({ indexFilterable: e.target.checked })}
+                className="rounded"
+              />
+              Filterable
+            </label>
+          )}
+          {text && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={property.indexSearchable ?? true}
+                onChange={(e) => update({ indexSearchable: e.target.checked })}
+                className="rounded"
+              />
+              Searchable (BM25)
+            </label>
+          )}
+          {!nested && (
+            <label
+              className={`flex items-center gap-2 ${hasVectorizer ? 'cursor-pointer' : 'text-gray-400'}`}
+              title={hasVectorizer ? undefined : 'Choose a vectorizer first'}
+            >
+              <input
+                type="checkbox"
+                checked={property.skipVectorization ?? false}
+                onChange={(e) => update({ skipVectorization: e.target.checked })}
+                disabled={!hasVectorizer}
+                className="rounded"
+              />
+              Skip vectorization
+            </label>
+          )}
+        </div>
+      )}
+
+      {object && (
+        <details open className="pl-4 border-l-2 border-gray-200">
+          <summary className="text-sm text-gray-600 cursor-pointer select-none">
+            Nested properties ({nestedProperties.length})
+          </summary>
+          <div className="space-y-2 mt-2">
+            {nestedProperties.map((nestedProperty, index) => (
+              <PropertyEditor
+                key={index}
+                property={nestedProperty}
+                onChange={(updated) => updateNested(index, updated)}
+                onRemove={
+                  nestedProperties.length > 1
+                    ? () => update({ nestedProperties: nestedProperties.filter((_, i) => i !== index) })
+                    : undefined
+                }
+                hasVectorizer={false}
+                nested
+              />
+            ))}
+            <button
+              type="button"
+              onClick={() => update({ nestedProperties: [...nestedProperties, emptyProperty()] })}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Add Nested Property
+            </button>
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Beacon, isUuid, parseBeacon } from '../lib/weaviate';
+import { ErrorDetails } from './ErrorDetails';
+
+interface ReferenceEditorProps {
+  property: {
+    name: string;
+    dataType?: string[];
+    description?: string;
+  };
+  references: Beacon[];
+  // Either may save straight away; the editor shows progress and errors
+  onAdd: (target: { className: string; id: string }) => void | Promise<void>;
+  onRemove: (reference: Beacon) => void | Promise<void>;
+}
+
+/** The objects a reference property points to, with a UUID field to point it at one more. */
+export function ReferenceEditor({ property, references, onAdd, onRemove }: ReferenceEditorProps) {
+  const targets = property.dataType ?? [];
+  const [targetClass, setTargetClass] = useState(targets[0] ?? '');
+  const [targetId, setTargetId] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | Error | null>(null);
+
+  const run = async (action: () => void | Promise<void>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err : fallback);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const id = targetId.trim();
+    if (!id) return;
+    if (!isUuid(id)) {
+      setError(`"${id}" is not a valid UUID`);
+      return;
+    }
+    if (references.some((ref) => parseBeacon(ref.beacon)?.id === id)) {
+      setError('That object is already referenced');
+      return;
+    }
+    if (await run(() => onAdd({ className: targetClass, id }), 'Failed to add reference')) {
+      setTargetId('');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700">
+        {property.name} {property.description && <span className="text-gray-600">({property.description})</span>}
+        <span className="text-gray-600 ml-2">[→ {targets.join(' | ')}]</span>
+      </label>
+
+      {references.length === 0 ? (
+        <p className="text-sm text-gray-500">No references</p>
+      ) : (
+        <ul className="space-y-1">
+          {references.map((ref) => {
+            const parsed = parseBeacon(ref.beacon);
+            return (
+              <li key={ref.beacon} className="flex items-center gap-2 text-sm">
+                <span className="text-gray-600">{parsed?.className ?? targets[0]}</span>
+                <span className="flex-1 font-mono truncate" title={ref.beacon}>
+                  {parsed?.id ?? ref.beacon}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => run(() => onRemove(ref), 'Failed to remove reference')}
+                  disabled={busy}
+                  className="px-3 text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  ×
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        {targets.length > 1 && (
+          <select
+            value={targetClass}
+            onChange={(e) => setTargetClass(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            {targets.map((target) => (
+              <option key={target} value={target}>
+                {target}
+              </option>
+            ))}
+          </select>
+        )}
+        <input
+          type="text"
+          value={targetId}
+          onChange={(e) => setTargetId(e.target.value)}
+          placeholder={`${targetClass} object UUID`}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={busy || !targetId.trim()}
+          className="px-3 py-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          + Add Reference
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">
+          <ErrorDetails error={error} />
+        </div>
+      )}
+    </div>
+  );
+}
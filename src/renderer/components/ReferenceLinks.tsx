@@ -0,0 +1,23 @@
+import { referenceIds } from '../lib/weaviate';
+
+/** A reference property's value in a table cell: short ids that open the referenced object. */
+export function ReferenceLinks({ value, onOpen }: { value: unknown; onOpen: (id: string) => void }) {
+  return (
+    <>
+      {referenceIds(value).map((id) => (
+        <button
+          key={id}
+          onClick={(e) => {
+            // Don't also open the row's own object
+            e.stopPropagation();
+            onOpen(id);
+          }}
+          title={id}
+          className="mr-2 font-mono text-blue-600 hover:text-blue-800 hover:underline"
+        >
+          {id.slice(0, 8)}
+        </button>
+      ))}
+    </>
+  );
+}
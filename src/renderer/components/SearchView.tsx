@@ -1,18 +1,39 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { DynamicTable, ColumnDef } from './DynamicTable';
-import { CollectionInfo, searchCollections, SearchType, initializeWeaviate, getCollections } from '../lib/weaviate';
+import { CollectionInfo, isObjectType, isReferenceType, SearchOptions, SearchType } from '../lib/weaviate';
 import { CollectionData } from '../lib/weaviate';
+import { useWeaviateClient, WeaviateClientContext } from '../lib/weaviate-context';
+import { ErrorDetails } from './ErrorDetails';
+import { ObjectDetailDrawer } from './ObjectDetailDrawer';
+import { EditObjectModal } from './EditObjectModal';
+import { ExportModal } from './ExportModal';
+import { ObjectTree } from './ObjectTree';
+import { TypedValue } from './TypedValue';
+import { ReferenceLinks } from './ReferenceLinks';
+import { TenantSelect } from './TenantSelect';
 
 export function SearchView() {
+  const rootClient = useWeaviateClient();
   const [collections, setCollections] = useState<CollectionInfo[]>([]);
   const [selectedCollection, setSelectedCollection] = useState<string>('');
+  // Only used for multi-tenant collections
+  const [tenant, setTenant] = useState('');
+  const client = useMemo(() => rootClient.withTenant(tenant || undefined), [rootClient, tenant]);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchType, setSearchType] = useState<SearchType>('bm25');
   const [limit, setLimit] = useState(10);
   const [results, setResults] = useState<CollectionData[]>([]);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
   const [selectedProperties, setSelectedProperties] = useState<Set<string>>(new Set());
+  const [openObjectId, setOpenObjectId] = useState<string | null>(null);
+  const [drawerOpen, setDrawerOpen] = useState(false);
+  const [editModalOpen, setEditModalOpen] = useState(false);
+  // A referenced object, shown in a read-only drawer over the result's
+  const [referenceTarget, setReferenceTarget] = useState<{ className: string; id: string } | null>(null);
+  // The search behind the current results, re-run for exports
+  const [lastSearch, setLastSearch] = useState<SearchOptions | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
 
   useEffect(() => {
     loadCollections();
@@ -29,11 +50,10 @@ export function SearchView() {
 
   const loadCollections = async () => {
     try {
-      await initializeWeaviate();
-      const data = await getCollections();
+      const data = await rootClient.getCollections();
       setCollections(data);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load collections');
+      setError(err instanceof Error ? err : 'Failed to load collections');
     }
   };
 
@@ -42,21 +62,26 @@ export function SearchView() {
       setError('Please enter a search query and select a collection');
       return;
     }
+    if (awaitingTenant) {
+      setError('Please select a tenant');
+      return;
+    }
 
     setLoading(true);
     setError(null);
     setResults([]);
 
     try {
-      await initializeWeaviate();
       const properties = selectedProperties.size > 0 ? Array.from(selectedProperties) : undefined;
-      const searchResults = await searchCollections({
+      const options: SearchOptions = {
         query: searchQuery,
         collectionName: selectedCollection,
         searchType,
         limit,
         properties,
-      });
+      };
+      const searchResults = await client.search(options);
+      setLastSearch(options);
       console.log('Search results:', searchResults);
       // Ensure all results have the expected structure
       const normalizedResults = searchResults.map((result) => {
@@ -70,7 +95,7 @@ export function SearchView() {
       });
       setResults(normalizedResults);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Search failed');
+      setError(err instanceof Error ? err : 'Search failed');
       console.error('Search error:', err);
     } finally {
       setLoading(false);
@@ -95,7 +120,50 @@ export function SearchView() {
     });
   };
 
+  const handleRowClick = (row: CollectionData) => {
+    const id = (row._additional as { id?: string })?.id;
+    if (id) {
+      setOpenObjectId(id);
+      setDrawerOpen(true);
+    }
+  };
+
+  const closeObject = () => {
+    setDrawerOpen(false);
+    setEditModalOpen(false);
+    setOpenObjectId(null);
+    setReferenceTarget(null);
+  };
+
+  // With several target collections, the id alone doesn't say which one to open
+  const openReference = async (targets: string[], id: string) => {
+    try {
+      const className = await client.findReferenceTarget(targets, id);
+      setReferenceTarget({ className: className ?? targets[0], id });
+    } catch (err) {
+      console.error('Error opening reference:', err);
+    }
+  };
+
   const selectedCollectionInfo = collections.find(c => c.name === selectedCollection);
+  // The results may come from an earlier search; open their objects where they came from
+  const resultsCollection = lastSearch?.collectionName ?? selectedCollection;
+  const resultsCollectionInfo = collections.find(c => c.name === resultsCollection);
+  const awaitingTenant = !!selectedCollectionInfo?.multiTenancy && !tenant;
+
+  // Results, and the object open from them, belong to the tenant they came from
+  const handleTenantChange = (next: string) => {
+    closeObject();
+    setResults([]);
+    setLastSearch(null);
+    setTenant(next);
+  };
+
+  // No tenant is picked in the new collection yet, so the same reset applies
+  const handleCollectionChange = (collectionName: string) => {
+    setSelectedCollection(collectionName);
+    handleTenantChange('');
+  };
 
   const columns: ColumnDef[] = selectedCollectionInfo
     ? selectedCollectionInfo.properties.map((prop) => ({
@@ -103,16 +171,14 @@ export function SearchView() {
         label: prop.name,
         dataType: prop.dataType,
         render: (value: unknown) => {
-          if (Array.isArray(value)) {
-            return value.join(', ');
-          }
-          if (value === null || value === undefined) {
-            return '';
+          if (prop.dataType && isReferenceType(prop.dataType[0] ?? '')) {
+            const targets = prop.dataType;
+            return <ReferenceLinks value={value} onOpen={(id) => openReference(targets, id)} />;
           }
-          if (typeof value === 'object') {
-            return JSON.stringify(value);
+          if (isObjectType(prop.dataType?.[0] ?? '')) {
+            return <ObjectTree value={value} />;
           }
-          return String(value);
+          return <TypedValue dataType={prop.dataType?.[0]} value={value} />;
         },
       }))
     : [];
@@ -135,139 +201,203 @@ export function SearchView() {
   }
 
   return (
-    <div className="space-y-6 text-gray-900">
-      <div className="bg-white rounded-lg shadow p-6">
-        <h2 className="text-2xl font-bold mb-4 ">Search Weaviate Collections</h2>
-
-        <div className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Collection *
-            </label>
-            <select
-              value={selectedCollection}
-              onChange={(e) => setSelectedCollection(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="">Select a collection...</option>
-              {collections.map((collection) => (
-                <option key={collection.name} value={collection.name}>
-                  {collection.name} ({collection.count} objects)
-                </option>
-              ))}
-            </select>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Search Query *
-            </label>
-            <input
-              type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              onKeyPress={handleKeyPress}
-              placeholder="Enter your search query..."
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
+    <WeaviateClientContext.Provider value={client}>
+      <div className="space-y-6 text-gray-900">
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-2xl font-bold mb-4 ">Search Weaviate Collections</h2>
 
-          <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Search Type
+                Collection *
               </label>
               <select
-                value={searchType}
-                onChange={(e) => setSearchType(e.target.value as SearchType)}
+                value={selectedCollection}
+                onChange={(e) => handleCollectionChange(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                <option value="bm25">BM25 (Keyword Search)</option>
-                <option value="vector">Vector Search</option>
-                <option value="hybrid">Hybrid (BM25 + Vector)</option>
+                <option value="">Select a collection...</option>
+                {collections.map((collection) => (
+                  <option key={collection.name} value={collection.name}>
+                    {collection.name}
+                  </option>
+                ))}
               </select>
             </div>
 
+            {selectedCollectionInfo?.multiTenancy && (
+              <TenantSelect collectionName={selectedCollection} value={tenant} onChange={handleTenantChange} />
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Results Limit
+                Search Query *
               </label>
               <input
-                type="number"
-                value={limit}
-                onChange={(e) => setLimit(parseInt(e.target.value) || 10)}
-                min="1"
-                max="100"
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyPress={handleKeyPress}
+                placeholder="Enter your search query..."
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
             </div>
-          </div>
 
-          {selectedCollectionInfo && selectedCollectionInfo.properties.length > 0 && (
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Search Properties (optional - leave all selected to search all)
-              </label>
-              <div className="flex flex-wrap gap-2 p-3 border border-gray-300 rounded-md bg-gray-50 max-h-40 overflow-y-auto">
-                {selectedCollectionInfo.properties.map((prop) => (
-                  <label
-                    key={prop.name}
-                    className="flex items-center gap-2 cursor-pointer"
-                  >
-                    <input
-                      type="checkbox"
-                      checked={selectedProperties.has(prop.name)}
-                      onChange={() => toggleProperty(prop.name)}
-                      className="rounded"
-                    />
-                    <span className="text-sm text-gray-900">
-                      {prop.name}
-                      {prop.dataType && (
-                        <span className="text-gray-600 ml-1">
-                          [{prop.dataType[0]}]
-                        </span>
-                      )}
-                    </span>
-                  </label>
-                ))}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Search Type
+                </label>
+                <select
+                  value={searchType}
+                  onChange={(e) => setSearchType(e.target.value as SearchType)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="bm25">BM25 (Keyword Search)</option>
+                  <option value="vector">Vector Search</option>
+                  <option value="hybrid">Hybrid (BM25 + Vector)</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Results Limit
+                </label>
+                <input
+                  type="number"
+                  value={limit}
+                  onChange={(e) => setLimit(parseInt(e.target.value) || 10)}
+                  min="1"
+                  max="100"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
               </div>
             </div>
-          )}
-
-          <button
-            onClick={handleSearch}
-            disabled={loading || !searchQuery.trim() || !selectedCollection}
-            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {loading ? 'Searching...' : 'Search'}
-          </button>
-        </div>
-      </div>
 
-      {error && (
-        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
-          {error}
+            {selectedCollectionInfo && selectedCollectionInfo.properties.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Search Properties (optional - leave all selected to search all)
+                </label>
+                <div className="flex flex-wrap gap-2 p-3 border border-gray-300 rounded-md bg-gray-50 max-h-40 overflow-y-auto">
+                  {selectedCollectionInfo.properties.map((prop) => (
+                    <label
+                      key={prop.name}
+                      className="flex items-center gap-2 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedProperties.has(prop.name)}
+                        onChange={() => toggleProperty(prop.name)}
+                        className="rounded"
+                      />
+                      <span className="text-sm text-gray-900">
+                        {prop.name}
+                        {prop.dataType && (
+                          <span className="text-gray-600 ml-1">
+                            [{prop.dataType[0]}]
+                          </span>
+                        )}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <button
+              onClick={handleSearch}
+              disabled={loading || !searchQuery.trim() || !selectedCollection || awaitingTenant}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Searching...' : 'Search'}
+            </button>
+          </div>
         </div>
-      )}
 
-      {results.length > 0 && (
-        <div className="bg-white rounded-lg shadow p-6">
-          <h3 className="text-xl font-bold mb-4">
-            Search Results ({results.length})
-          </h3>
-          <DynamicTable
-            columns={columns}
-            data={results}
-            loading={false}
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            <ErrorDetails error={error} />
+          </div>
+        )}
+
+        {results.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-xl font-bold">
+                Search Results ({results.length})
+              </h3>
+              <button
+                onClick={() => setExportOpen(true)}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+              >
+                Export
+              </button>
+            </div>
+            <DynamicTable
+              columns={columns}
+              data={results}
+              loading={false}
+              onRowClick={handleRowClick}
+            />
+          </div>
+        )}
+
+        {!loading && results.length === 0 && searchQuery && selectedCollection && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-700 px-4 py-3 rounded">
+            No results found. Try adjusting your search query or search type.
+          </div>
+        )}
+
+        {lastSearch && (
+          <ExportModal
+            isOpen={exportOpen}
+            onClose={() => setExportOpen(false)}
+            collectionName={lastSearch.collectionName}
+            properties={collections.find((c) => c.name === lastSearch.collectionName)?.properties.map((p) => p.name) ?? []}
+            scope="these search results"
+            total={results.length}
+            loadPages={async function* (includeVector) {
+              yield includeVector ? await client.search({ ...lastSearch, includeVector }) : results;
+            }}
           />
-        </div>
-      )}
+        )}
 
-      {!loading && results.length === 0 && searchQuery && selectedCollection && (
-        <div className="bg-yellow-50 border border-yellow-200 text-yellow-700 px-4 py-3 rounded">
-          No results found. Try adjusting your search query or search type.
-        </div>
-      )}
-    </div>
+        {openObjectId && (
+          <ObjectDetailDrawer
+            isOpen={drawerOpen}
+            onClose={closeObject}
+            onEdit={() => {
+              setDrawerOpen(false);
+              setEditModalOpen(true);
+            }}
+            onOpenReference={(className, id) => setReferenceTarget({ className, id })}
+            collectionName={resultsCollection}
+            objectId={openObjectId}
+          />
+        )}
+
+        {referenceTarget && (
+          <ObjectDetailDrawer
+            isOpen
+            onClose={() => setReferenceTarget(null)}
+            onOpenReference={(className, id) => setReferenceTarget({ className, id })}
+            collectionName={referenceTarget.className}
+            objectId={referenceTarget.id}
+          />
+        )}
+
+        {openObjectId && (
+          <EditObjectModal
+            isOpen={editModalOpen}
+            onClose={closeObject}
+            onSuccess={handleSearch}
+            collectionName={resultsCollection}
+            objectId={openObjectId}
+            properties={resultsCollectionInfo?.properties ?? []}
+          />
+        )}
+      </div>
+    </WeaviateClientContext.Provider>
   );
 }
@@ -1,5 +1,20 @@
 import { useState, useEffect } from 'react';
-import { getSettings, saveSettings, Settings } from '../lib/settings';
+import {
+  getSettings,
+  getSecretStorageStatus,
+  saveSettings,
+  createProfile,
+  isSecretHeader,
+  AUTH_METHODS,
+  AuthMethod,
+  ConnectionProfile,
+  HeaderEntry,
+  ProfileColor,
+  PROFILE_COLORS,
+  SecretStorageStatus,
+  Settings,
+} from '../lib/settings';
+import { testConnection } from '../lib/weaviate';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -7,12 +22,22 @@ interface SettingsModalProps {
   onSave: () => void;
 }
 
+function formatUrl(url: string): string {
+  if (url && !url.startsWith('http://') && !url.startsWith('https://')) {
+    return `http://${url}`;
+  }
+  return url;
+}
+
 export function SettingsModal({ isOpen, onClose, onSave }: SettingsModalProps) {
-  const [settings, setSettings] = useState<Settings>({ weaviateUrl: '', apiKey: '' });
+  const [settings, setSettings] = useState<Settings>({ profiles: [], activeProfileId: null });
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [testing, setTesting] = useState(false);
+  const [secretStorage, setSecretStorage] = useState<SecretStorageStatus | null>(null);
+  const [revealedHeaders, setRevealedHeaders] = useState<Set<number>>(new Set());
 
   useEffect(() => {
     if (isOpen) {
@@ -23,7 +48,14 @@ export function SettingsModal({ isOpen, onClose, onSave }: SettingsModalProps) {
   const loadSettings = async () => {
     try {
       const currentSettings = await getSettings();
+      if (currentSettings.profiles.length === 0) {
+        const profile = createProfile({ name: 'Default' });
+        currentSettings.profiles = [profile];
+        currentSettings.activeProfileId = profile.id;
+      }
       setSettings(currentSettings);
+      setSecretStorage(await getSecretStorageStatus());
+      setSelectedProfileId(currentSettings.activeProfileId ?? currentSettings.profiles[0].id);
       setError(null);
       setSuccess(null);
     } catch (err) {
@@ -32,32 +64,119 @@ export function SettingsModal({ isOpen, onClose, onSave }: SettingsModalProps) {
     }
   };
 
-  const testConnection = async () => {
-    setTesting(true);
+  const selectedProfile = settings.profiles.find((p) => p.id === selectedProfileId) ?? null;
+
+  const updateSelectedProfile = (changes: Partial<ConnectionProfile>) => {
+    setSettings({
+      ...settings,
+      profiles: settings.profiles.map((p) => (p.id === selectedProfileId ? { ...p, ...changes } : p)),
+    });
     setError(null);
     setSuccess(null);
+  };
 
-    try {
-      let formattedUrl = settings.weaviateUrl;
-      if (!formattedUrl.startsWith('http://') && !formattedUrl.startsWith('https://')) {
-        formattedUrl = `http://${formattedUrl}`;
-      }
+  const updateHeader = (index: number, changes: Partial<HeaderEntry>) => {
+    if (!selectedProfile) return;
+    updateSelectedProfile({
+      headers: selectedProfile.headers.map((h, i) => {
+        if (i !== index) return h;
+        // A saved value is kept under its header's name, so renaming drops it
+        const renamed = changes.name !== undefined && changes.name !== h.name;
+        return { ...h, ...changes, ...(renamed && { hasValue: false }) };
+      }),
+    });
+  };
 
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      };
+  const addHeader = () => {
+    if (!selectedProfile) return;
+    updateSelectedProfile({ headers: [...selectedProfile.headers, { name: '', value: '' }] });
+  };
 
-      if (settings.apiKey) {
-        headers['Authorization'] = `Bearer ${settings.apiKey}`;
+  const removeHeader = (index: number) => {
+    if (!selectedProfile) return;
+    updateSelectedProfile({ headers: selectedProfile.headers.filter((_, i) => i !== index) });
+    setRevealedHeaders(new Set());
+  };
+
+  const toggleRevealHeader = (index: number) => {
+    setRevealedHeaders((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
       }
+      return next;
+    });
+  };
 
-      const response = await fetch(`${formattedUrl}/v1/schema`, {
-        headers,
-      });
+  const renderSecretInput = (
+    field: 'apiKey' | 'password' | 'clientSecret',
+    flag: 'hasApiKey' | 'hasPassword' | 'hasClientSecret',
+    label: string,
+    placeholder: string,
+  ) => {
+    if (!selectedProfile) return null;
+    return (
+      <div>
+        <label htmlFor={field} className="block text-sm font-medium text-gray-700 mb-1">
+          {label}
+        </label>
+        <input
+          id={field}
+          type="password"
+          value={selectedProfile[field]}
+          onChange={(e) => updateSelectedProfile({ [field]: e.target.value })}
+          placeholder={selectedProfile[flag] ? 'Saved (leave blank to keep)' : placeholder}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {selectedProfile[flag] && (
+          <button
+            type="button"
+            onClick={() => updateSelectedProfile({ [field]: '', [flag]: false })}
+            className="mt-1 text-xs text-red-600 hover:text-red-800"
+          >
+            Remove saved {label.replace(' (optional)', '').toLowerCase()}
+          </button>
+        )}
+      </div>
+    );
+  };
 
-      if (!response.ok) {
-        throw new Error(`Connection failed: ${response.statusText} (Status: ${response.status})`);
-      }
+  const browseFile = async (field: 'caFile' | 'clientCertFile' | 'clientKeyFile', title: string) => {
+    const filePath = await window.electronAPI?.selectFile(title);
+    if (filePath) {
+      updateSelectedProfile({ [field]: filePath });
+    }
+  };
+
+  const addProfile = () => {
+    const profile = createProfile();
+    setSettings({ ...settings, profiles: [...settings.profiles, profile] });
+    setSelectedProfileId(profile.id);
+    setError(null);
+    setSuccess(null);
+  };
+
+  const removeSelectedProfile = () => {
+    const profiles = settings.profiles.filter((p) => p.id !== selectedProfileId);
+    setSettings({
+      profiles,
+      activeProfileId: settings.activeProfileId === selectedProfileId ? profiles[0]?.id ?? null : settings.activeProfileId,
+    });
+    setSelectedProfileId(profiles[0]?.id ?? null);
+    setError(null);
+    setSuccess(null);
+  };
+
+  const handleTestConnection = async () => {
+    if (!selectedProfile) return;
+    setTesting(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await testConnection({ ...selectedProfile, weaviateUrl: formatUrl(selectedProfile.weaviateUrl) });
 
       // Connection successful
       setSuccess('Connection successful! Successfully connected to Weaviate.');
@@ -75,15 +194,20 @@ export function SettingsModal({ isOpen, onClose, onSave }: SettingsModalProps) {
     setError(null);
 
     try {
-      // Format URL properly
-      let formattedUrl = settings.weaviateUrl;
-      if (formattedUrl && !formattedUrl.startsWith('http://') && !formattedUrl.startsWith('https://')) {
-        formattedUrl = `http://${formattedUrl}`;
+      const invalidProfile = settings.profiles.find((p) => !p.name.trim() || !p.weaviateUrl.trim());
+      if (invalidProfile) {
+        setSelectedProfileId(invalidProfile.id);
+        throw new Error('Every connection needs a name and a Weaviate URL');
       }
 
       await saveSettings({
-        ...settings,
-        weaviateUrl: formattedUrl,
+        profiles: settings.profiles.map((p) => ({
+          ...p,
+          name: p.name.trim(),
+          weaviateUrl: formatUrl(p.weaviateUrl.trim()),
+          headers: p.headers.filter((h) => h.name.trim()).map((h) => ({ ...h, name: h.name.trim() })),
+        })),
+        activeProfileId: settings.activeProfileId ?? selectedProfileId,
       });
 
       // Reinitialize Weaviate connection
@@ -103,46 +227,311 @@ export function SettingsModal({ isOpen, onClose, onSave }: SettingsModalProps) {
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 text-gray-900">
-      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
         <h2 className="text-2xl font-bold mb-4">Weaviate Connection Settings</h2>
 
-        <div className="space-y-4">
-          <div>
-            <label htmlFor="weaviateUrl" className="block text-sm font-medium text-gray-700 mb-1">
-              Weaviate URL
-            </label>
-            <input
-              id="weaviateUrl"
-              type="text"
-              value={settings.weaviateUrl}
-              onChange={(e) => {
-                setSettings({ ...settings, weaviateUrl: e.target.value });
-                setError(null);
-                setSuccess(null);
-              }}
-              placeholder="http://localhost:8080"
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
+        <div className="flex gap-6">
+          <div className="w-48 flex-shrink-0 space-y-1">
+            {settings.profiles.map((profile) => (
+              <button
+                key={profile.id}
+                type="button"
+                onClick={() => {
+                  setSelectedProfileId(profile.id);
+                  setRevealedHeaders(new Set());
+                }}
+                className={`w-full flex items-center gap-2 px-3 py-2 rounded-md text-left text-sm ${
+                  profile.id === selectedProfileId ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-100'
+                }`}
+              >
+                <span className={`inline-block h-3 w-3 flex-shrink-0 rounded-full ${PROFILE_COLORS[profile.color]}`} />
+                <span className="truncate">{profile.name || 'Untitled'}</span>
+                {profile.id === settings.activeProfileId && (
+                  <span className="ml-auto text-xs text-gray-500">active</span>
+                )}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={addProfile}
+              className="w-full px-3 py-2 text-sm text-left text-blue-600 hover:text-blue-800"
+            >
+              + New Connection
+            </button>
           </div>
 
-          <div>
-            <label htmlFor="apiKey" className="block text-sm font-medium text-gray-700 mb-1">
-              API Key (optional)
-            </label>
-            <input
-              id="apiKey"
-              type="password"
-              value={settings.apiKey}
-              onChange={(e) => {
-                setSettings({ ...settings, apiKey: e.target.value });
-                setError(null);
-                setSuccess(null);
-              }}
-              placeholder="Enter API key if required"
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
+          {selectedProfile && (
+            <div className="flex-1 space-y-4">
+              <div>
+                <label htmlFor="profileName" className="block text-sm font-medium text-gray-700 mb-1">
+                  Name
+                </label>
+                <input
+                  id="profileName"
+                  type="text"
+                  value={selectedProfile.name}
+                  onChange={(e) => updateSelectedProfile({ name: e.target.value })}
+                  placeholder="Production"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="weaviateUrl" className="block text-sm font-medium text-gray-700 mb-1">
+                  Weaviate URL
+                </label>
+                <input
+                  id="weaviateUrl"
+                  type="text"
+                  value={selectedProfile.weaviateUrl}
+                  onChange={(e) => updateSelectedProfile({ weaviateUrl: e.target.value })}
+                  placeholder="http://localhost:8080"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="authMethod" className="block text-sm font-medium text-gray-700 mb-1">
+                  Authentication
+                </label>
+                <select
+                  id="authMethod"
+                  value={selectedProfile.authMethod}
+                  onChange={(e) => updateSelectedProfile({ authMethod: e.target.value as AuthMethod })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {(Object.keys(AUTH_METHODS) as AuthMethod[]).map((method) => (
+                    <option key={method} value={method}>
+                      {AUTH_METHODS[method]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {selectedProfile.authMethod === 'apiKey' &&
+                renderSecretInput('apiKey', 'hasApiKey', 'API Key (optional)', 'Enter API key if required')}
+
+              {selectedProfile.authMethod === 'oidcPassword' && (
+                <>
+                  <div>
+                    <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-1">
+                      Username
+                    </label>
+                    <input
+                      id="username"
+                      type="text"
+                      value={selectedProfile.username}
+                      onChange={(e) => updateSelectedProfile({ username: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  {renderSecretInput('password', 'hasPassword', 'Password', 'Enter password')}
+                </>
+              )}
+
+              {selectedProfile.authMethod === 'oidcClientCredentials' &&
+                renderSecretInput('clientSecret', 'hasClientSecret', 'Client Secret', 'Enter client secret')}
+
+              {selectedProfile.authMethod !== 'apiKey' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label htmlFor="oidcClientId" className="block text-sm font-medium text-gray-700 mb-1">
+                      Client ID (optional)
+                    </label>
+                    <input
+                      id="oidcClientId"
+                      type="text"
+                      value={selectedProfile.oidcClientId}
+                      onChange={(e) => updateSelectedProfile({ oidcClientId: e.target.value })}
+                      placeholder="From Weaviate's OIDC config"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="oidcScopes" className="block text-sm font-medium text-gray-700 mb-1">
+                      Scopes (optional)
+                    </label>
+                    <input
+                      id="oidcScopes"
+                      type="text"
+                      value={selectedProfile.oidcScopes}
+                      onChange={(e) => updateSelectedProfile({ oidcScopes: e.target.value })}
+                      placeholder="openid email"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  {!window.electronAPI && (
+                    <p className="col-span-2 text-xs text-yellow-700">
+                      OIDC sign-in only works when running inside Electron.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {secretStorage && !secretStorage.encrypted && (
+                <p className="text-xs text-yellow-700">
+                  {secretStorage.backend === 'sessionStorage'
+                    ? 'Running outside Electron: credentials are kept for this session only and are not saved.'
+                    : 'OS encryption is unavailable on this machine: credentials will be stored unencrypted.'}
+                </p>
+              )}
+
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <label className="block text-sm font-medium text-gray-700">Request Headers</label>
+                  <button
+                    type="button"
+                    onClick={addHeader}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    + Add Header
+                  </button>
+                </div>
+                {selectedProfile.headers.length === 0 ? (
+                  <p className="text-xs text-gray-500">
+                    Module keys such as X-OpenAI-Api-Key are needed for nearText and hybrid search on vectorizer-backed
+                    collections.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {selectedProfile.headers.map((header, index) => {
+                      const masked = isSecretHeader(header.name) && !revealedHeaders.has(index);
+                      return (
+                        <div key={index} className="flex gap-2 items-center">
+                          <input
+                            type="text"
+                            value={header.name}
+                            onChange={(e) => updateHeader(index, { name: e.target.value })}
+                            placeholder="X-OpenAI-Api-Key"
+                            className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                          />
+                          <input
+                            type={masked ? 'password' : 'text'}
+                            value={header.value}
+                            onChange={(e) => updateHeader(index, { value: e.target.value })}
+                            placeholder={header.hasValue ? 'Saved (leave blank to keep)' : 'Value'}
+                            className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                          />
+                          {isSecretHeader(header.name) && (
+                            <button
+                              type="button"
+                              onClick={() => toggleRevealHeader(index)}
+                              className="px-2 py-1 text-xs text-gray-600 hover:text-gray-800"
+                            >
+                              {masked ? 'Show' : 'Hide'}
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => removeHeader(index)}
+                            className="px-2 py-1 text-red-600 hover:text-red-800 text-sm"
+                          >
+                            ×
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Color</label>
+                <div className="flex gap-2">
+                  {(Object.keys(PROFILE_COLORS) as ProfileColor[]).map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => updateSelectedProfile({ color })}
+                      className={`h-6 w-6 rounded-full ${PROFILE_COLORS[color]} ${
+                        selectedProfile.color === color ? 'ring-2 ring-offset-2 ring-blue-500' : ''
+                      }`}
+                      title={color}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <details className="border border-gray-200 rounded-md p-3">
+                <summary className="text-sm font-medium text-gray-700 cursor-pointer">Network &amp; TLS</summary>
+                <div className="space-y-3 mt-3">
+                  {([
+                    ['caFile', 'CA bundle (PEM)', 'Select CA bundle'],
+                    ['clientCertFile', 'Client certificate (PEM)', 'Select client certificate'],
+                    ['clientKeyFile', 'Client key (PEM)', 'Select client key'],
+                  ] as const).map(([field, label, title]) => (
+                    <div key={field}>
+                      <label htmlFor={field} className="block text-sm font-medium text-gray-700 mb-1">
+                        {label}
+                      </label>
+                      <div className="flex gap-2">
+                        <input
+                          id={field}
+                          type="text"
+                          value={selectedProfile[field]}
+                          onChange={(e) => updateSelectedProfile({ [field]: e.target.value })}
+                          placeholder="/path/to/file.pem"
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        {window.electronAPI && (
+                          <button
+                            type="button"
+                            onClick={() => browseFile(field, title)}
+                            className="px-3 py-2 bg-gray-100 text-gray-700 rounded-md text-sm hover:bg-gray-200"
+                          >
+                            Browse...
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedProfile.allowInsecureTls}
+                      onChange={(e) => updateSelectedProfile({ allowInsecureTls: e.target.checked })}
+                      className="rounded"
+                    />
+                    <span className="text-sm text-gray-700">Allow insecure TLS (skip certificate verification)</span>
+                  </label>
+
+                  <div>
+                    <label htmlFor="proxyUrl" className="block text-sm font-medium text-gray-700 mb-1">
+                      Proxy URL
+                    </label>
+                    <input
+                      id="proxyUrl"
+                      type="text"
+                      value={selectedProfile.proxyUrl}
+                      onChange={(e) => updateSelectedProfile({ proxyUrl: e.target.value })}
+                      placeholder="http://proxy:3128 or socks5://proxy:1080"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  {!window.electronAPI && (
+                    <p className="text-xs text-yellow-700">
+                      These settings only apply when running inside Electron.
+                    </p>
+                  )}
+                </div>
+              </details>
+
+              {settings.profiles.length > 1 && (
+                <button
+                  type="button"
+                  onClick={removeSelectedProfile}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  Remove this connection
+                </button>
+              )}
+            </div>
+          )}
+        </div>
 
+        <div className="space-y-4 mt-6">
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
               {error}
@@ -157,15 +546,15 @@ export function SettingsModal({ isOpen, onClose, onSave }: SettingsModalProps) {
 
           <div className="flex gap-2">
             <button
-              onClick={testConnection}
-              disabled={testing || !settings.weaviateUrl}
+              onClick={handleTestConnection}
+              disabled={testing || !selectedProfile?.weaviateUrl}
               className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {testing ? 'Testing...' : 'Test Connection'}
             </button>
             <button
               onClick={handleSave}
-              disabled={loading || !settings.weaviateUrl}
+              disabled={loading || settings.profiles.length === 0}
               className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {loading ? 'Saving...' : 'Save'}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { AggregateGroup, isAggregatable, PropertyStats } from '../lib/weaviate';
+import { WhereFilter } from '../lib/filters';
+import { useWeaviateClient } from '../lib/weaviate-context';
+import { ErrorDetails } from './ErrorDetails';
+
+interface StatisticsPanelProps {
+  collectionName: string;
+  properties: Array<{
+    name: string;
+    dataType: string[];
+  }>;
+  // The table's active filter; statistics cover the same objects
+  where: WhereFilter | null;
+}
+
+function formatNumber(value: number | string | undefined): string {
+  if (value === undefined || value === null) return '—';
+  return typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : value;
+}
+
+function formatDate(value: number | string | undefined): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function StatRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-2">
+      <span className="text-gray-500">{label}</span>
+      <span className="truncate" title={value}>
+        {value}
+      </span>
+    </div>
+  );
+}
+
+function PropertyStatsView({ dataType, stats }: { dataType: string; stats: PropertyStats }) {
+  const base = dataType.replace('[]', '');
+
+  if (base === 'text' || base === 'string') {
+    const top = stats.topOccurrences ?? [];
+    return top.length === 0 ? (
+      <p className="text-gray-400">No values</p>
+    ) : (
+      <>
+        {top.map((occurrence) => (
+          <StatRow key={occurrence.value} label={occurrence.value || '(empty)'} value={occurrence.occurs.toLocaleString()} />
+        ))}
+      </>
+    );
+  }
+
+  if (base === 'boolean') {
+    const percent = (n?: number) => (n === undefined ? '—' : `${(n * 100).toFixed(1)}%`);
+    return (
+      <>
+        <StatRow label="true" value={`${formatNumber(stats.totalTrue)} (${percent(stats.percentageTrue)})`} />
+        <StatRow label="false" value={`${formatNumber(stats.totalFalse)} (${percent(stats.percentageFalse)})`} />
+      </>
+    );
+  }
+
+  if (base === 'date') {
+    return (
+      <>
+        <StatRow label="Earliest" value={formatDate(stats.minimum)} />
+        <StatRow label="Latest" value={formatDate(stats.maximum)} />
+      </>
+    );
+  }
+
+  return (
+    <>
+      <StatRow label="Min" value={formatNumber(stats.minimum)} />
+      <StatRow label="Max" value={formatNumber(stats.maximum)} />
+      <StatRow label="Mean" value={formatNumber(stats.mean)} />
+      <StatRow label="Median" value={formatNumber(stats.median)} />
+      <StatRow label="Mode" value={formatNumber(stats.mode)} />
+      <StatRow label="Sum" value={formatNumber(stats.sum)} />
+    </>
+  );
+}
+
+export function StatisticsPanel({ collectionName, properties, where }: StatisticsPanelProps) {
+  const client = useWeaviateClient();
+  const [groupBy, setGroupBy] = useState('');
+  const [groups, setGroups] = useState<AggregateGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | Error | null>(null);
+
+  const aggregatable = properties.filter((p) => isAggregatable(p.dataType[0]));
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    client
+      .aggregate(collectionName, aggregatable, { where, groupBy: groupBy || undefined })
+      .then((result) => {
+        if (!cancelled) setGroups(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err : 'Failed to load statistics');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, collectionName, properties, where, groupBy]);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-4 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-bold text-base">Statistics</h3>
+        <select
+          value={groupBy}
+          onChange={(e) => setGroupBy(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">No grouping</option>
+          {aggregatable.map((p) => (
+            <option key={p.name} value={p.name}>
+              Group by {p.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading && <p className="text-gray-500">Loading statistics...</p>}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded">
+          <ErrorDetails error={error} />
+        </div>
+      )}
+
+      {!loading && !error && groups.length === 0 && <p className="text-gray-400">No objects</p>}
+
+      {!loading &&
+        !error &&
+        groups.map((group, index) => (
+          <div key={group.groupedBy?.value ?? index} className="space-y-3">
+            <div className="flex justify-between font-medium border-b border-gray-200 pb-1">
+              <span className="truncate">
+                {group.groupedBy ? `${groupBy} = ${group.groupedBy.value || '(empty)'}` : where ? 'Matching objects' : 'All objects'}
+              </span>
+              <span>{group.count.toLocaleString()}</span>
+            </div>
+            {aggregatable
+              .filter((p) => p.name !== groupBy && group.properties[p.name])
+              .map((p) => (
+                <div key={p.name}>
+                  <div className="font-medium text-gray-700 mb-1">
+                    {p.name}
+                    <span className="text-gray-400 font-normal ml-1">[{p.dataType[0]}]</span>
+                  </div>
+                  <div className="pl-2 space-y-0.5">
+                    <PropertyStatsView dataType={p.dataType[0]} stats={group.properties[p.name]} />
+                  </div>
+                </div>
+              ))}
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { Tenant } from '../lib/weaviate';
+import { useWeaviateClient } from '../lib/weaviate-context';
+
+interface TenantSelectProps {
+  collectionName: string;
+  value: string;
+  onChange: (tenant: string) => void;
+}
+
+// Older servers say HOT/COLD, newer ones ACTIVE/INACTIVE/OFFLOADED
+export function isTenantActive(tenant: Tenant): boolean {
+  return !tenant.activityStatus || tenant.activityStatus === 'HOT' || tenant.activityStatus === 'ACTIVE';
+}
+
+/** Picks the tenant of a multi-tenant collection to work in, starting with the first active one. */
+export function TenantSelect({ collectionName, value, onChange }: TenantSelectProps) {
+  const client = useWeaviateClient();
+  const [tenants, setTenants] = useState<Tenant[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    client
+      .getTenants(collectionName)
+      .then((result) => {
+        if (cancelled) return;
+        const sorted = [...result].sort((a, b) => a.name.localeCompare(b.name));
+        setTenants(sorted);
+        if (!sorted.some((t) => t.name === value)) {
+          onChange((sorted.find(isTenantActive) ?? sorted[0])?.name ?? '');
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load tenants');
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Not on `client`: it is rebuilt for every tenant picked here, and the list doesn't depend on it
+  }, [client.profileId, collectionName]);
+
+  if (error) {
+    return (
+      <span className="text-sm text-red-600" title={error}>
+        Tenants unavailable
+      </span>
+    );
+  }
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-700">
+      Tenant
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={!tenants || tenants.length === 0}
+        className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {!tenants && <option value="">Loading…</option>}
+        {tenants?.length === 0 && <option value="">No tenants</option>}
+        {tenants?.map((tenant) => (
+          <option key={tenant.name} value={tenant.name}>
+            {tenant.name}
+            {isTenantActive(tenant) ? '' : ` (${tenant.activityStatus})`}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
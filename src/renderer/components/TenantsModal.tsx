@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import { Tenant, TENANT_STATUSES } from '../lib/weaviate';
+import { useWeaviateClient } from '../lib/weaviate-context';
+import { ErrorDetails } from './ErrorDetails';
+
+interface TenantsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  collectionName: string;
+}
+
+// Newer servers report ACTIVE/INACTIVE for what older ones call HOT/COLD
+function statusOption(status?: string): string {
+  if (!status || status === 'ACTIVE') return 'HOT';
+  if (status === 'INACTIVE') return 'COLD';
+  return status;
+}
+
+/** Lists a multi-tenant collection's tenants and adds, removes, activates and deactivates them. */
+export function TenantsModal({ isOpen, onClose, collectionName }: TenantsModalProps) {
+  const client = useWeaviateClient();
+  const [tenants, setTenants] = useState<Tenant[] | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newStatus, setNewStatus] = useState('HOT');
+  // The tenant whose Remove button was clicked once
+  const [confirmingRemove, setConfirmingRemove] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | Error | null>(null);
+
+  const loadTenants = async () => {
+    try {
+      const result = await client.getTenants(collectionName);
+      setTenants([...result].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err) {
+      setError(err instanceof Error ? err : 'Failed to load tenants');
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTenants(null);
+    setNewName('');
+    setNewStatus('HOT');
+    setConfirmingRemove(null);
+    setError(null);
+    loadTenants();
+  }, [isOpen, client, collectionName]);
+
+  if (!isOpen) return null;
+
+  // Runs a change, then shows the tenants as the server now has them
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await loadTenants();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err : fallback);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    const added = await run(
+      () => client.addTenants(collectionName, [{ name, activityStatus: newStatus }]),
+      'Failed to add tenant',
+    );
+    if (added) setNewName('');
+  };
+
+  const handleStatusChange = (name: string, activityStatus: string) =>
+    run(() => client.updateTenants(collectionName, [{ name, activityStatus }]), 'Failed to update tenant');
+
+  const handleRemove = async (name: string) => {
+    if (confirmingRemove !== name) {
+      setConfirmingRemove(name);
+      return;
+    }
+    setConfirmingRemove(null);
+    await run(() => client.deleteTenants(collectionName, [name]), 'Failed to remove tenant');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 text-gray-900">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-4">{collectionName} Tenants</h2>
+
+        <form onSubmit={handleAdd} className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New tenant name"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={newStatus}
+            onChange={(e) => setNewStatus(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            {TENANT_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={busy || !newName.trim()}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            + Add Tenant
+          </button>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+            <ErrorDetails error={error} />
+          </div>
+        )}
+
+        {!tenants && !error && <div className="text-center py-8">Loading tenants...</div>}
+
+        {tenants?.length === 0 && <p className="text-gray-500 py-4">No tenants yet.</p>}
+
+        {tenants && tenants.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 font-medium">Name</th>
+                <th className="py-2 font-medium">Status</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {tenants.map((tenant) => {
+                const status = statusOption(tenant.activityStatus);
+                return (
+                  <tr key={tenant.name} className="border-b border-gray-100">
+                    <td className="py-2 font-mono">{tenant.name}</td>
+                    <td className="py-2">
+                      <select
+                        value={status}
+                        onChange={(e) => handleStatusChange(tenant.name, e.target.value)}
+                        disabled={busy}
+                        className="px-2 py-1 border border-gray-300 rounded-md"
+                      >
+                        {!TENANT_STATUSES.includes(status) && <option value={status}>{status}</option>}
+                        {TENANT_STATUSES.map((option) => (
+                          <option key={option} value={option}>
+                            {option}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => handleRemove(tenant.name)}
+                        disabled={busy}
+                        className={`px-3 py-1 rounded-md disabled:opacity-50 ${
+                          confirmingRemove === tenant.name
+                            ? 'bg-red-600 text-white hover:bg-red-700'
+                            : 'text-red-600 hover:text-red-800'
+                        }`}
+                      >
+                        {confirmingRemove === tenant.name ? 'Remove with all objects?' : 'Remove'}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex justify-end mt-4">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { GeoCoordinates, PhoneNumber } from '../lib/weaviate';
+import { blobByteLength, blobMimeType, formatBytes, isImageBlob, toDataUrl } from '../lib/blob';
+
+function formatPlain(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/** A property value in a table cell, shown the way its data type reads best. */
+export function TypedValue({ dataType, value }: { dataType?: string; value: unknown }) {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  switch (dataType) {
+    case 'uuid':
+    case 'uuid[]':
+      return <span className="font-mono">{formatPlain(value)}</span>;
+    case 'geoCoordinates': {
+      const { latitude, longitude } = value as GeoCoordinates;
+      return (
+        <span title={`${latitude}, ${longitude}`}>
+          {latitude.toFixed(5)}, {longitude.toFixed(5)}
+        </span>
+      );
+    }
+    case 'phoneNumber': {
+      const phone = value as PhoneNumber;
+      return (
+        <span title={phone.input} className={phone.valid === false ? 'text-red-600' : undefined}>
+          {phone.internationalFormatted || phone.input}
+        </span>
+      );
+    }
+    case 'blob': {
+      const base64 = String(value);
+      const mimeType = blobMimeType(base64);
+      return (
+        <span className="inline-flex items-center gap-2">
+          {isImageBlob(base64) && <img src={toDataUrl(base64)} alt="" className="h-6 w-6 object-cover rounded" />}
+          <span className="text-gray-600">
+            {formatBytes(blobByteLength(base64))}
+            {mimeType && ` · ${mimeType}`}
+          </span>
+        </span>
+      );
+    }
+    default:
+      return <>{formatPlain(value)}</>;
+  }
+}
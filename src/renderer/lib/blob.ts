@@ -0,0 +1,55 @@
+// Weaviate stores `blob` properties as base64 strings. These helpers look at
+// the encoded data without decoding more of it than they need.
+
+// Base64 of each format's magic bytes
+const SIGNATURES: [string, string][] = [
+  ['iVBORw0KGgo', 'image/png'],
+  ['/9j/', 'image/jpeg'],
+  ['R0lGOD', 'image/gif'],
+  ['UklGR', 'image/webp'],
+  ['PHN2Zy', 'image/svg+xml'],
+  ['JVBERi0', 'application/pdf'],
+];
+
+/** The MIME type of a base64 blob, or undefined if it's not one we recognize. */
+export function blobMimeType(base64: string): string | undefined {
+  return SIGNATURES.find(([prefix]) => base64.startsWith(prefix))?.[1];
+}
+
+export function isImageBlob(base64: string): boolean {
+  return blobMimeType(base64)?.startsWith('image/') ?? false;
+}
+
+/** Decoded size in bytes. */
+export function blobByteLength(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function toDataUrl(base64: string): string {
+  return `data:${blobMimeType(base64) ?? 'application/octet-stream'};base64,${base64}`;
+}
+
+/** Reads a file picked by the user as base64, without the data URL prefix. */
+export function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+/** Saves a base64 blob through the browser's download flow. */
+export function downloadBlob(base64: string, fileName: string): void {
+  const link = document.createElement('a');
+  link.href = toDataUrl(base64);
+  link.download = fileName;
+  link.click();
+}
@@ -0,0 +1,122 @@
+import { CollectionData } from './weaviate';
+import { FileSink } from './files';
+
+export type ExportFormat = 'csv' | 'json' | 'jsonl';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string }> = {
+  csv: { label: 'CSV', extension: 'csv' },
+  json: { label: 'JSON', extension: 'json' },
+  jsonl: { label: 'JSON Lines', extension: 'jsonl' },
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  includeId: boolean;
+  includeVector: boolean;
+  // Timestamps, search scores and whatever else came back in _additional
+  includeMetadata: boolean;
+}
+
+// Kept out of the metadata columns because they have options of their own
+const VECTOR_FIELDS = ['vector', 'vectors'];
+
+/** One exported record: id first, then properties, then metadata and vectors. */
+export function toExportRecord(
+  row: CollectionData,
+  properties: string[],
+  options: Omit<ExportOptions, 'format'>,
+): Record<string, unknown> {
+  const additional = (row._additional ?? {}) as Record<string, unknown>;
+  const record: Record<string, unknown> = {};
+
+  if (options.includeId) {
+    record.id = additional.id;
+  }
+  for (const property of properties) {
+    record[property] = row[property] ?? null;
+  }
+  if (options.includeMetadata) {
+    for (const [key, value] of Object.entries(additional)) {
+      if (key !== 'id' && !VECTOR_FIELDS.includes(key)) {
+        record[`_${key}`] = value;
+      }
+    }
+  }
+  if (options.includeVector) {
+    for (const key of VECTOR_FIELDS) {
+      if (additional[key] !== undefined && additional[key] !== null) {
+        record[`_${key}`] = additional[key];
+      }
+    }
+  }
+  return record;
+}
+
+export function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export interface ExportProgress {
+  exported: number;
+}
+
+/**
+ * Writes every page to the sink in the chosen format. Stops between pages
+ * when the signal aborts, discarding the partial file; otherwise closes it
+ * and returns how many objects were written.
+ */
+export async function exportObjects(
+  pages: AsyncIterable<CollectionData[]>,
+  sink: FileSink,
+  properties: string[],
+  options: ExportOptions,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (progress: ExportProgress) => void } = {},
+): Promise<number> {
+  let exported = 0;
+  // CSV columns are fixed by the first record; vector and metadata columns
+  // vary with what Weaviate returns, so later ones may add nothing new
+  let columns: string[] | null = null;
+
+  try {
+    if (options.format === 'json') {
+      await sink.write('[');
+    }
+
+    for await (const page of pages) {
+      if (signal?.aborted) break;
+
+      const records = page.map((row) => toExportRecord(row, properties, options));
+      let chunk: string;
+      if (options.format === 'csv') {
+        const header = columns === null;
+        columns ??= records.length > 0 ? Object.keys(records[0]) : [];
+        const lines = records.map((record) => columns!.map((column) => csvCell(record[column])).join(','));
+        chunk = (header ? [columns.map(csvCell).join(','), ...lines] : lines).map((line) => `${line}\r\n`).join('');
+      } else if (options.format === 'json') {
+        chunk = records.map((record, i) => `${exported + i > 0 ? ',' : ''}\n  ${JSON.stringify(record)}`).join('');
+      } else {
+        chunk = records.map((record) => `${JSON.stringify(record)}\n`).join('');
+      }
+
+      await sink.write(chunk);
+      exported += records.length;
+      onProgress?.({ exported });
+    }
+
+    if (signal?.aborted) {
+      await sink.discard();
+      return exported;
+    }
+
+    if (options.format === 'json') {
+      await sink.write(exported > 0 ? '\n]\n' : ']\n');
+    }
+    await sink.close();
+    return exported;
+  } catch (error) {
+    await sink.discard().catch((discardError) => console.error('Error discarding export file:', discardError));
+    throw error;
+  }
+}
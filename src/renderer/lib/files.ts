@@ -0,0 +1,49 @@
+import type { FileFilter } from '../types/electron';
+
+/** A file being written in chunks. */
+export interface FileSink {
+  // Where it's going, for display
+  name: string;
+  write(chunk: string): Promise<void>;
+  close(): Promise<void>;
+  // Drops the partial file
+  discard(): Promise<void>;
+}
+
+/**
+ * Asks the user where to save and opens the file, or returns null if they
+ * cancel. Outside Electron the content is collected and downloaded on close.
+ */
+export async function createFileSink(title: string, defaultName: string, filters: FileFilter[]): Promise<FileSink | null> {
+  const api = window.electronAPI;
+  if (api) {
+    const file = await api.createFile(title, defaultName, filters);
+    if (!file) return null;
+    return {
+      name: file.filePath,
+      write: (chunk) => api.writeFile(file.handle, chunk),
+      close: () => api.closeFile(file.handle, false),
+      discard: () => api.closeFile(file.handle, true),
+    };
+  }
+
+  // Fallback for development/testing
+  const chunks: string[] = [];
+  return {
+    name: defaultName,
+    write: async (chunk) => {
+      chunks.push(chunk);
+    },
+    close: async () => {
+      const url = URL.createObjectURL(new Blob(chunks));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = defaultName;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    discard: async () => {
+      chunks.length = 0;
+    },
+  };
+}
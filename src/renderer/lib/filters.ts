@@ -0,0 +1,238 @@
+import { enumValue, GraphQLValue } from './graphql';
+
+export type FilterOperator =
+  | 'Equal'
+  | 'NotEqual'
+  | 'GreaterThan'
+  | 'GreaterThanEqual'
+  | 'LessThan'
+  | 'LessThanEqual'
+  | 'Like'
+  | 'ContainsAny'
+  | 'ContainsAll'
+  | 'IsNull'
+  | 'WithinGeoRange';
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  Equal: '=',
+  NotEqual: '≠',
+  GreaterThan: '>',
+  GreaterThanEqual: '≥',
+  LessThan: '<',
+  LessThanEqual: '≤',
+  Like: 'like',
+  ContainsAny: 'contains any',
+  ContainsAll: 'contains all',
+  IsNull: 'is null',
+  WithinGeoRange: 'within',
+};
+
+export interface FilterCondition {
+  kind: 'condition';
+  id: string;
+  property: string;
+  operator: FilterOperator;
+  // Raw input. ContainsAny/ContainsAll take a comma-separated list, IsNull
+  // "true"/"false", WithinGeoRange "latitude,longitude,meters".
+  value: string;
+}
+
+export interface FilterGroup {
+  kind: 'group';
+  id: string;
+  operator: 'And' | 'Or';
+  children: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+export interface SavedFilter {
+  name: string;
+  filter: FilterGroup;
+}
+
+/** Weaviate's where filter in its REST (JSON) form. */
+export interface WhereFilter {
+  operator: FilterOperator | 'And' | 'Or';
+  operands?: WhereFilter[];
+  path?: string[];
+  valueText?: string;
+  valueTextArray?: string[];
+  valueInt?: number;
+  valueIntArray?: number[];
+  valueNumber?: number;
+  valueNumberArray?: number[];
+  valueBoolean?: boolean;
+  valueBooleanArray?: boolean[];
+  valueDate?: string;
+  valueDateArray?: string[];
+  valueGeoRange?: {
+    geoCoordinates: { latitude: number; longitude: number };
+    distance: { max: number };
+  };
+}
+
+type ValueKind = 'Text' | 'Int' | 'Number' | 'Boolean' | 'Date';
+
+const COMPARISON: FilterOperator[] = ['Equal', 'NotEqual', 'GreaterThan', 'GreaterThanEqual', 'LessThan', 'LessThanEqual'];
+
+/** Operators Weaviate accepts for a property of the given data type, most useful first. */
+export function operatorsFor(dataType: string): FilterOperator[] {
+  const isArray = dataType.endsWith('[]');
+  const base = dataType.replace('[]', '');
+
+  if (base === 'geoCoordinates') {
+    return ['WithinGeoRange', 'IsNull'];
+  }
+  if (isArray) {
+    return ['ContainsAny', 'ContainsAll', 'Equal', 'IsNull'];
+  }
+  switch (base) {
+    case 'int':
+    case 'number':
+    case 'date':
+      return [...COMPARISON, 'ContainsAny', 'IsNull'];
+    case 'boolean':
+      return ['Equal', 'NotEqual', 'IsNull'];
+    case 'uuid':
+      return ['Equal', 'NotEqual', 'ContainsAny', 'IsNull'];
+    default:
+      return ['Equal', 'NotEqual', 'Like', 'ContainsAny', 'ContainsAll', 'IsNull', ...COMPARISON.slice(2)];
+  }
+}
+
+function valueKind(dataType: string): ValueKind {
+  switch (dataType.replace('[]', '')) {
+    case 'int':
+      return 'Int';
+    case 'number':
+      return 'Number';
+    case 'boolean':
+      return 'Boolean';
+    case 'date':
+      return 'Date';
+    default:
+      return 'Text';
+  }
+}
+
+function parseValue(kind: ValueKind, raw: string, property: string): string | number | boolean {
+  const value = raw.trim();
+  switch (kind) {
+    case 'Int': {
+      const parsed = Number(value);
+      if (value === '' || !Number.isInteger(parsed)) {
+        throw new Error(`"${property}" needs a whole number, got "${raw}"`);
+      }
+      return parsed;
+    }
+    case 'Number': {
+      const parsed = Number(value);
+      if (value === '' || !Number.isFinite(parsed)) {
+        throw new Error(`"${property}" needs a number, got "${raw}"`);
+      }
+      return parsed;
+    }
+    case 'Boolean':
+      if (value !== 'true' && value !== 'false') {
+        throw new Error(`"${property}" needs true or false, got "${raw}"`);
+      }
+      return value === 'true';
+    case 'Date': {
+      const date = new Date(value);
+      if (value === '' || isNaN(date.getTime())) {
+        throw new Error(`"${property}" needs a date, got "${raw}"`);
+      }
+      // Weaviate wants RFC 3339
+      return date.toISOString();
+    }
+    default:
+      return raw;
+  }
+}
+
+function compileCondition(condition: FilterCondition, dataTypes: Record<string, string>): WhereFilter {
+  const dataType = dataTypes[condition.property];
+  if (!dataType) {
+    throw new Error(`Unknown property "${condition.property}"`);
+  }
+  const base: WhereFilter = { operator: condition.operator, path: [condition.property] };
+
+  if (condition.operator === 'IsNull') {
+    return { ...base, valueBoolean: condition.value !== 'false' };
+  }
+
+  if (condition.operator === 'WithinGeoRange') {
+    const [latitude, longitude, distance] = condition.value.split(',').map((part) => Number(part.trim()));
+    if ([latitude, longitude, distance].some((n) => n === undefined || !Number.isFinite(n))) {
+      throw new Error(`"${condition.property}" needs a latitude, longitude and distance in meters`);
+    }
+    return { ...base, valueGeoRange: { geoCoordinates: { latitude, longitude }, distance: { max: distance } } };
+  }
+
+  const kind = valueKind(dataType);
+  if (condition.operator === 'ContainsAny' || condition.operator === 'ContainsAll') {
+    const values = condition.value
+      .split(',')
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .map((part) => parseValue(kind, part, condition.property));
+    return { ...base, [`value${kind}Array`]: values };
+  }
+
+  return { ...base, [`value${kind}`]: parseValue(kind, condition.value, condition.property) };
+}
+
+function compileNode(node: FilterNode, dataTypes: Record<string, string>): WhereFilter | null {
+  if (node.kind === 'condition') {
+    return node.property ? compileCondition(node, dataTypes) : null;
+  }
+  const operands = node.children
+    .map((child) => compileNode(child, dataTypes))
+    .filter((operand): operand is WhereFilter => operand !== null);
+  if (operands.length === 0) {
+    return null;
+  }
+  // A group of one is just that condition
+  return operands.length === 1 ? operands[0] : { operator: node.operator, operands };
+}
+
+/**
+ * Turns the builder's tree into a where filter, or null when it has no
+ * conditions. Throws with a readable message when a value doesn't fit its
+ * property's type.
+ */
+export function compileFilter(
+  filter: FilterGroup,
+  properties: { name: string; dataType?: string[] }[],
+): WhereFilter | null {
+  const dataTypes = Object.fromEntries(properties.map((p) => [p.name, p.dataType?.[0] ?? 'text']));
+  return compileNode(filter, dataTypes);
+}
+
+/**
+ * GraphQL spells the filter differently from REST: operators are enums and
+ * list values reuse the scalar key (`valueText: ["a", "b"]`).
+ */
+export function toGraphQLWhere(where: WhereFilter): GraphQLValue {
+  const result: Record<string, GraphQLValue> = {};
+  for (const [key, value] of Object.entries(where)) {
+    if (value === undefined) continue;
+    if (key === 'operator') {
+      result.operator = enumValue(value as string);
+    } else if (key === 'operands') {
+      result.operands = (value as WhereFilter[]).map(toGraphQLWhere);
+    } else {
+      result[key.replace(/Array$/, '')] = value as GraphQLValue;
+    }
+  }
+  return result;
+}
+
+export function createCondition(property = ''): FilterCondition {
+  return { kind: 'condition', id: crypto.randomUUID(), property, operator: 'Equal', value: '' };
+}
+
+export function createGroup(operator: 'And' | 'Or' = 'And'): FilterGroup {
+  return { kind: 'group', id: crypto.randomUUID(), operator, children: [] };
+}
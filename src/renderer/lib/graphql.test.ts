@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { buildQuery, enumValue, formatValue, identifier, onType, stringLiteral } from './graphql';
+import { toGraphQLWhere, WhereFilter } from './filters';
+
+describe('stringLiteral', () => {
+  it('escapes quotes and backslashes', () => {
+    expect(stringLiteral('say "hi"')).toBe('"say \\"hi\\""');
+    expect(stringLiteral('C:\\path\\')).toBe('"C:\\\\path\\\\"');
+    expect(stringLiteral('\\"')).toBe('"\\\\\\""');
+  });
+
+  it('escapes newlines and other control characters', () => {
+    expect(stringLiteral('a\nb\r\tc')).toBe('"a\\nb\\r\\tc"');
+    expect(stringLiteral('\u0000\u001f')).toBe('"\\u0000\\u001f"');
+  });
+
+  it('keeps unicode as-is', () => {
+    expect(stringLiteral('café ☕ 日本 🦄')).toBe('"café ☕ 日本 🦄"');
+    expect(stringLiteral('\u2028')).toBe('"\u2028"');
+  });
+
+  it('keeps an injection attempt inside the string', () => {
+    expect(stringLiteral('"}) { __schema { types { name } } }')).toBe('"\\"}) { __schema { types { name } } }"');
+  });
+});
+
+describe('formatValue', () => {
+  it('formats scalars, lists, enums and objects', () => {
+    expect(formatValue(null)).toBe('null');
+    expect(formatValue(1.5)).toBe('1.5');
+    expect(formatValue(false)).toBe('false');
+    expect(formatValue(['a', 1])).toBe('["a", 1]');
+    expect(formatValue(enumValue('asc'))).toBe('asc');
+    expect(formatValue({ path: ['title'], order: enumValue('desc') })).toBe('{ path: ["title"], order: desc }');
+  });
+
+  it('drops undefined object entries', () => {
+    expect(formatValue({ limit: 5, offset: undefined })).toBe('{ limit: 5 }');
+  });
+
+  it('rejects numbers GraphQL has no literal for', () => {
+    expect(() => formatValue(NaN)).toThrow('Invalid GraphQL number');
+    expect(() => formatValue(Infinity)).toThrow('Invalid GraphQL number');
+  });
+
+  it('rejects object keys that are not names', () => {
+    expect(() => formatValue({ 'a: 1) { __schema': 1 })).toThrow('Invalid GraphQL name');
+  });
+});
+
+describe('identifier', () => {
+  it('accepts GraphQL names', () => {
+    expect(identifier('Article')).toBe('Article');
+    expect(identifier('_additional')).toBe('_additional');
+    expect(identifier('title2')).toBe('title2');
+  });
+
+  it.each(['', '2fast', 'my-class', 'has space', 'Article { __schema', 'Café', 'a"b', 'a\nb'])(
+    'rejects %j',
+    (name) => {
+      expect(() => identifier(name)).toThrow('Invalid GraphQL name');
+    },
+  );
+
+  it('checks the type of an inline fragment', () => {
+    expect(onType('Author')).toBe('... on Author');
+    expect(() => onType('Author } { __schema')).toThrow('Invalid GraphQL name');
+  });
+});
+
+describe('buildQuery', () => {
+  it('builds a query with arguments and nested selections', () => {
+    expect(
+      buildQuery('Get', 'Article', { limit: 10, after: undefined }, ['title', { _additional: ['id'] }]),
+    ).toBe('{ Get { Article(limit: 10) { title _additional { id } } } }');
+  });
+
+  it('leaves out the parentheses without arguments', () => {
+    expect(buildQuery('Aggregate', 'Article', {}, [{ meta: ['count'] }])).toBe(
+      '{ Aggregate { Article { meta { count } } } }',
+    );
+  });
+
+  it('selects inline fragments', () => {
+    expect(buildQuery('Get', 'Article', {}, [{ author: [{ [onType('Author')]: ['name'] }] }])).toBe(
+      '{ Get { Article { author { ... on Author { name } } } } }',
+    );
+  });
+
+  it('keeps a hostile search term inside its string literal', () => {
+    const query = buildQuery('Get', 'Article', { bm25: { query: '"}) { __schema { types { name } } } #\n\\' } }, [
+      'title',
+    ]);
+    expect(query).toBe(
+      '{ Get { Article(bm25: { query: "\\"}) { __schema { types { name } } } #\\n\\\\" }) { title } } }',
+    );
+  });
+
+  it('rejects invalid class, argument and property names', () => {
+    expect(() => buildQuery('Get', 'Article) { __schema', {}, ['title'])).toThrow('Invalid GraphQL name');
+    expect(() => buildQuery('Get', 'Article', { 'limit: 1) {': 1 }, ['title'])).toThrow('Invalid GraphQL name');
+    expect(() => buildQuery('Get', 'Article', {}, ['title } __schema {'])).toThrow('Invalid GraphQL name');
+    expect(() => buildQuery('Get', 'Article', {}, [{ 'ref { x': ['id'] }])).toThrow('Invalid GraphQL name');
+  });
+});
+
+describe('toGraphQLWhere', () => {
+  it('writes operators as enums and list values under the scalar key', () => {
+    const where: WhereFilter = {
+      operator: 'And',
+      operands: [
+        { operator: 'Equal', path: ['title'], valueText: 'a "quoted" \\ value' },
+        { operator: 'ContainsAny', path: ['tags'], valueTextArray: ['x', 'y\n'] },
+      ],
+    };
+    expect(formatValue(toGraphQLWhere(where))).toBe(
+      '{ operator: And, operands: [' +
+        '{ operator: Equal, path: ["title"], valueText: "a \\"quoted\\" \\\\ value" }, ' +
+        '{ operator: ContainsAny, path: ["tags"], valueText: ["x", "y\\n"] }] }',
+    );
+  });
+
+  it('keeps a hostile path and value as strings', () => {
+    const where: WhereFilter = { operator: 'Like', path: ['"]) { __schema'], valueText: '*"}) { __schema *' };
+    expect(formatValue(toGraphQLWhere(where))).toBe(
+      '{ operator: Like, path: ["\\"]) { __schema"], valueText: "*\\"}) { __schema *" }',
+    );
+  });
+
+  it('rejects an operator that is not a name', () => {
+    const where = { operator: 'Equal) { __schema', path: ['title'], valueText: 'x' } as unknown as WhereFilter;
+    expect(() => toGraphQLWhere(where)).toThrow('Invalid GraphQL name');
+  });
+});
@@ -0,0 +1,108 @@
+// Builds Weaviate GraphQL queries without string-interpolating user input.
+// Every name is checked against the GraphQL identifier grammar and every
+// value is serialized as a literal, so a search term can't change the query.
+
+const IDENTIFIER = /^[_A-Za-z][_0-9A-Za-z]*$/;
+const INLINE_FRAGMENT = /^\.\.\. on [_A-Za-z][_0-9A-Za-z]*$/;
+
+/** An enum argument such as `order: asc` or `operator: Equal`, written without quotes. */
+export class GraphQLEnum {
+  constructor(readonly value: string) {}
+}
+
+export type GraphQLValue =
+  | string
+  | number
+  | boolean
+  | null
+  | GraphQLEnum
+  | GraphQLValue[]
+  | { [key: string]: GraphQLValue | undefined };
+
+/**
+ * Field names, with nested selections as `{ _additional: ['id'] }` and
+ * inline fragments as `{ [onType('Author')]: ['name'] }`.
+ */
+export type Selection = (string | { [field: string]: Selection })[];
+
+export function identifier(name: string): string {
+  if (!IDENTIFIER.test(name)) {
+    throw new Error(`Invalid GraphQL name: ${JSON.stringify(name)}`);
+  }
+  return name;
+}
+
+/** The key of an inline fragment, `... on Author`, for use in a selection. */
+export function onType(typeName: string): string {
+  return `... on ${identifier(typeName)}`;
+}
+
+export function enumValue(value: string): GraphQLEnum {
+  return new GraphQLEnum(identifier(value));
+}
+
+// GraphQL string escapes (\" \\ \n \uXXXX ...) are a subset of JSON's, and
+// JSON.stringify never emits anything outside that subset
+export function stringLiteral(value: string): string {
+  return JSON.stringify(value);
+}
+
+export function formatValue(value: GraphQLValue): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (value instanceof GraphQLEnum) {
+    return value.value;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(', ')}]`;
+  }
+  switch (typeof value) {
+    case 'string':
+      return stringLiteral(value);
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error(`Invalid GraphQL number: ${value}`);
+      }
+      return String(value);
+    case 'boolean':
+      return String(value);
+    default:
+      return `{ ${formatArguments(value)} }`;
+  }
+}
+
+// Undefined entries are dropped so optional arguments can be passed as-is
+function formatArguments(args: { [key: string]: GraphQLValue | undefined }): string {
+  return Object.entries(args)
+    .filter((entry): entry is [string, GraphQLValue] => entry[1] !== undefined)
+    .map(([key, value]) => `${identifier(key)}: ${formatValue(value)}`)
+    .join(', ');
+}
+
+export function formatSelection(selection: Selection): string {
+  return selection
+    .map((field) => {
+      if (typeof field === 'string') {
+        return identifier(field);
+      }
+      return Object.entries(field)
+        .map(([name, nested]) => `${INLINE_FRAGMENT.test(name) ? name : identifier(name)} { ${formatSelection(nested)} }`)
+        .join(' ');
+    })
+    .join(' ');
+}
+
+/**
+ * `buildQuery('Get', 'Article', { limit: 10 }, ['title'])` gives
+ * `{ Get { Article(limit: 10) { title } } }`.
+ */
+export function buildQuery(
+  operation: 'Get' | 'Aggregate',
+  className: string,
+  args: { [key: string]: GraphQLValue | undefined },
+  selection: Selection,
+): string {
+  const formattedArgs = formatArguments(args);
+  return `{ ${operation} { ${identifier(className)}${formattedArgs ? `(${formattedArgs})` : ''} { ${formatSelection(selection)} } } }`;
+}
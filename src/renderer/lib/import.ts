@@ -0,0 +1,314 @@
+import { BatchObject, isUuid, WeaviateClient } from './weaviate';
+import { csvCell } from './export';
+
+export interface ParsedFile {
+  // Every key seen in any record, in first-seen order
+  columns: string[];
+  records: Record<string, unknown>[];
+}
+
+/** Source column per property; properties left out aren't imported. */
+export type ColumnMapping = Record<string, string>;
+
+export interface ImportSettings {
+  className: string;
+  properties: { name: string; dataType?: string[] }[];
+  mapping: ColumnMapping;
+  // Optional columns holding each object's UUID and vector
+  idColumn?: string;
+  vectorColumn?: string;
+  batchSize: number;
+}
+
+export interface ImportError {
+  // 1-based record number in the source file
+  row: number;
+  id?: string;
+  message: string;
+}
+
+export interface ImportResult {
+  imported: number;
+  errors: ImportError[];
+}
+
+// RFC 4180, including quoted fields that span lines
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines
+  return rows.filter((r) => r.length > 1 || r[0] !== '');
+}
+
+function collectColumns(records: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  for (const record of records) {
+    Object.keys(record).forEach((key) => columns.add(key));
+  }
+  return Array.from(columns);
+}
+
+/** Reads CSV (with a header row), a JSON array of objects, or JSON Lines, by file extension. */
+export function parseImportFile(fileName: string, text: string): ParsedFile {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  // Excel likes to start UTF-8 files with a byte order mark
+  const content = text.replace(/^\uFEFF/, '');
+
+  if (extension === 'csv') {
+    const [header, ...rows] = parseCsvRows(content);
+    if (!header) {
+      throw new Error('The file is empty');
+    }
+    const records = rows.map((row) => Object.fromEntries(header.map((column, i) => [column, row[i] ?? ''])));
+    return { columns: header, records };
+  }
+
+  let records: unknown[];
+  if (extension === 'json') {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error('A JSON file must contain an array of objects');
+    }
+    records = parsed;
+  } else if (extension === 'jsonl' || extension === 'ndjson') {
+    records = content
+      .split(/\r?\n/)
+      .map((line, i) => ({ line: line.trim(), number: i + 1 }))
+      .filter(({ line }) => line)
+      .map(({ line, number }) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new Error(`Line ${number} is not valid JSON`);
+        }
+      });
+  } else {
+    throw new Error('Choose a .csv, .json or .jsonl file');
+  }
+
+  const invalid = records.findIndex((r) => !r || typeof r !== 'object' || Array.isArray(r));
+  if (invalid !== -1) {
+    throw new Error(`Record ${invalid + 1} is not an object`);
+  }
+  const objects = records as Record<string, unknown>[];
+  return { columns: collectColumns(objects), records: objects };
+}
+
+/** Maps each property, the id and the vector to the column with the same name, ignoring case. */
+export function guessMapping(
+  columns: string[],
+  properties: { name: string }[],
+): { mapping: ColumnMapping; idColumn?: string; vectorColumn?: string } {
+  const find = (...names: string[]) =>
+    columns.find((column) => names.some((name) => column.toLowerCase() === name.toLowerCase()));
+
+  const mapping: ColumnMapping = {};
+  for (const property of properties) {
+    const column = find(property.name);
+    if (column) mapping[property.name] = column;
+  }
+  return { mapping, idColumn: find('id', 'uuid', '_id'), vectorColumn: find('vector', '_vector') };
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// Strings that look like JSON are parsed, so values exported as JSON in a CSV
+// cell come back as what they were
+function parseJsonish(value: unknown): unknown {
+  if (typeof value === 'string' && /^\s*[[{]/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+function coerceScalar(value: unknown, dataType: string): unknown {
+  const text = typeof value === 'string' ? value.trim() : value;
+  switch (dataType) {
+    case 'text':
+    case 'string':
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    case 'int': {
+      const parsed = Number(text);
+      if (!Number.isInteger(parsed)) throw new Error(`expected a whole number, got "${value}"`);
+      return parsed;
+    }
+    case 'number': {
+      const parsed = Number(text);
+      if (text === '' || !Number.isFinite(parsed)) throw new Error(`expected a number, got "${value}"`);
+      return parsed;
+    }
+    case 'boolean': {
+      if (typeof text === 'boolean') return text;
+      const normalized = String(text).toLowerCase();
+      if (['true', '1', 'yes'].includes(normalized)) return true;
+      if (['false', '0', 'no'].includes(normalized)) return false;
+      throw new Error(`expected true or false, got "${value}"`);
+    }
+    case 'date': {
+      const date = typeof text === 'number' ? new Date(text) : new Date(String(text));
+      if (isNaN(date.getTime())) throw new Error(`expected a date, got "${value}"`);
+      return date.toISOString();
+    }
+    case 'uuid':
+      if (!isUuid(String(text))) throw new Error(`expected a UUID, got "${value}"`);
+      return String(text);
+    default:
+      // Geo coordinates, phone numbers, objects, references: pass JSON through
+      return parseJsonish(value);
+  }
+}
+
+/**
+ * Converts a source value to what Weaviate expects for the data type, or
+ * undefined for an empty cell. Array types take JSON arrays or comma-separated
+ * lists. Throws with a short reason when the value doesn't fit.
+ */
+export function coerceValue(value: unknown, dataType: string): unknown {
+  if (isEmpty(value)) return undefined;
+  if (!dataType.endsWith('[]')) {
+    return coerceScalar(value, dataType);
+  }
+
+  const base = dataType.slice(0, -2);
+  const parsed = parseJsonish(value);
+  const items = Array.isArray(parsed)
+    ? parsed
+    : String(parsed)
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item !== '');
+  return items.map((item) => coerceScalar(item, base));
+}
+
+function coerceVector(value: unknown): number[] {
+  const parsed = parseJsonish(value);
+  if (!Array.isArray(parsed) || parsed.some((n) => typeof n !== 'number' || !Number.isFinite(n))) {
+    throw new Error('vector must be a JSON array of numbers');
+  }
+  return parsed;
+}
+
+/** The batch object for one source record. Throws with a message naming the failing field. */
+export function toBatchObject(record: Record<string, unknown>, settings: ImportSettings): BatchObject {
+  const properties: Record<string, unknown> = {};
+  for (const property of settings.properties) {
+    const column = settings.mapping[property.name];
+    if (!column) continue;
+    try {
+      const value = coerceValue(record[column], property.dataType?.[0] ?? 'text');
+      if (value !== undefined) properties[property.name] = value;
+    } catch (err) {
+      throw new Error(`${property.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  const object: BatchObject = { class: settings.className, properties };
+  if (settings.idColumn && !isEmpty(record[settings.idColumn])) {
+    const id = String(record[settings.idColumn]).trim();
+    if (!isUuid(id)) {
+      throw new Error(`id: expected a UUID, got "${id}"`);
+    }
+    object.id = id;
+  }
+  if (settings.vectorColumn && !isEmpty(record[settings.vectorColumn])) {
+    object.vector = coerceVector(record[settings.vectorColumn]);
+  }
+  return object;
+}
+
+/**
+ * Sends the records in batches. Records that fail coercion are reported
+ * without being sent; a batch that fails as a whole reports every record in
+ * it. Stops between batches when the signal aborts.
+ */
+export async function importObjects(
+  client: WeaviateClient,
+  records: Record<string, unknown>[],
+  settings: ImportSettings,
+  {
+    signal,
+    onProgress,
+  }: { signal?: AbortSignal; onProgress?: (progress: { processed: number } & ImportResult) => void } = {},
+): Promise<ImportResult> {
+  const result: ImportResult = { imported: 0, errors: [] };
+
+  for (let start = 0; start < records.length; start += settings.batchSize) {
+    if (signal?.aborted) break;
+
+    const batch: { row: number; object: BatchObject }[] = [];
+    records.slice(start, start + settings.batchSize).forEach((record, i) => {
+      const row = start + i + 1;
+      try {
+        batch.push({ row, object: toBatchObject(record, settings) });
+      } catch (err) {
+        result.errors.push({ row, message: err instanceof Error ? err.message : String(err) });
+      }
+    });
+
+    if (batch.length > 0) {
+      try {
+        const responses = await client.batchCreateObjects(batch.map((b) => b.object));
+        // Results come back in request order
+        batch.forEach(({ row, object }, i) => {
+          const errors = responses[i]?.result?.errors?.error;
+          if (errors?.length) {
+            result.errors.push({ row, id: responses[i].id ?? object.id, message: errors.map((e) => e.message).join('; ') });
+          } else {
+            result.imported++;
+          }
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Batch request failed';
+        batch.forEach(({ row, object }) => result.errors.push({ row, id: object.id, message }));
+      }
+    }
+
+    onProgress?.({ processed: Math.min(start + settings.batchSize, records.length), ...result });
+  }
+
+  return result;
+}
+
+export function errorReportCsv(errors: ImportError[]): string {
+  const lines = errors.map((e) => [e.row, e.id ?? '', e.message].map(csvCell).join(','));
+  return ['row,id,error', ...lines].map((line) => `${line}\r\n`).join('');
+}
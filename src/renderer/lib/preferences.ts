@@ -0,0 +1,51 @@
+import { SavedFilter } from './filters';
+
+/** How the user arranged a collection's table. Columns are identified by key. */
+export interface TableLayout {
+  // Display order; columns missing here (e.g. new properties) go at the end
+  order: string[];
+  hidden: string[];
+  pinned: string[];
+  // Pixels
+  widths: Record<string, number>;
+}
+
+export const DEFAULT_TABLE_LAYOUT: TableLayout = { order: [], hidden: [], pinned: [], widths: {} };
+
+/** UI state remembered per connection profile and collection. */
+export interface CollectionPrefs {
+  savedFilters?: SavedFilter[];
+  tableLayout?: TableLayout;
+}
+
+const STORAGE_KEY = 'weaviate-collection-prefs';
+
+function readFallbackPrefs(): Record<string, CollectionPrefs> {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored ? JSON.parse(stored) : {};
+}
+
+export async function getCollectionPrefs(profileId: string, collection: string): Promise<CollectionPrefs> {
+  if (window.electronAPI) {
+    return await window.electronAPI.getCollectionPrefs(profileId, collection);
+  }
+  // Fallback for development/testing
+  return readFallbackPrefs()[`${profileId}:${collection}`] ?? {};
+}
+
+/** Saves only the given keys; anything else stored for the collection is kept. */
+export async function saveCollectionPrefs(
+  profileId: string,
+  collection: string,
+  prefs: Partial<CollectionPrefs>,
+): Promise<void> {
+  if (window.electronAPI) {
+    await window.electronAPI.saveCollectionPrefs(profileId, collection, prefs);
+  } else {
+    // Fallback for development/testing
+    const all = readFallbackPrefs();
+    const key = `${profileId}:${collection}`;
+    all[key] = { ...all[key], ...prefs };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  }
+}
@@ -1,6 +1,159 @@
-export interface Settings {
+export type ProfileColor = 'gray' | 'blue' | 'green' | 'yellow' | 'red' | 'purple';
+
+// Full class names so Tailwind picks them up when scanning the source
+export const PROFILE_COLORS: Record<ProfileColor, string> = {
+  gray: 'bg-gray-400',
+  blue: 'bg-blue-500',
+  green: 'bg-green-500',
+  yellow: 'bg-yellow-400',
+  red: 'bg-red-500',
+  purple: 'bg-purple-500',
+};
+
+export interface HeaderEntry {
+  name: string;
+  // Like the secret fields, only set when the user types a new value under
+  // Electron; hasValue says one is saved
+  value: string;
+  hasValue?: boolean;
+}
+
+export type AuthMethod = 'apiKey' | 'oidcPassword' | 'oidcClientCredentials';
+
+export const AUTH_METHODS: Record<AuthMethod, string> = {
+  apiKey: 'API key',
+  oidcPassword: 'OIDC username/password',
+  oidcClientCredentials: 'OIDC client credentials',
+};
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
   weaviateUrl: string;
+  authMethod: AuthMethod;
+  // Under Electron stored secrets never reach the renderer: apiKey, password
+  // and clientSecret are only set when the user types a new value, and the
+  // matching has* flag says whether one is saved
   apiKey: string;
+  hasApiKey: boolean;
+  username: string;
+  password: string;
+  hasPassword: boolean;
+  // Leave empty to use the client id Weaviate advertises
+  oidcClientId: string;
+  clientSecret: string;
+  hasClientSecret: boolean;
+  // Space-separated; leave empty to use the scopes Weaviate advertises
+  oidcScopes: string;
+  // Sent with every request, e.g. X-OpenAI-Api-Key for vectorizer modules
+  headers: HeaderEntry[];
+  color: ProfileColor;
+  caFile: string;
+  clientCertFile: string;
+  clientKeyFile: string;
+  allowInsecureTls: boolean;
+  proxyUrl: string;
+}
+
+export interface Settings {
+  profiles: ConnectionProfile[];
+  activeProfileId: string | null;
+}
+
+export interface SecretStorageStatus {
+  backend: string;
+  encrypted: boolean;
+}
+
+const STORAGE_KEY = 'weaviate-settings';
+// Without Electron there is no safe place for secrets at rest, so the
+// fallback keeps API keys in sessionStorage and never writes them to disk
+const SECRETS_KEY = 'weaviate-secrets';
+
+const SECRET_FIELDS = {
+  apiKey: 'hasApiKey',
+  password: 'hasPassword',
+  clientSecret: 'hasClientSecret',
+} as const;
+
+type SecretField = keyof typeof SECRET_FIELDS;
+type SecretFlag = (typeof SECRET_FIELDS)[SecretField];
+
+const SECRET_FIELD_ENTRIES = Object.entries(SECRET_FIELDS) as [SecretField, SecretFlag][];
+
+export function createProfile(overrides: Partial<ConnectionProfile> = {}): ConnectionProfile {
+  return {
+    id: crypto.randomUUID(),
+    name: 'New Connection',
+    weaviateUrl: '',
+    authMethod: 'apiKey',
+    apiKey: '',
+    hasApiKey: false,
+    username: '',
+    password: '',
+    hasPassword: false,
+    oidcClientId: '',
+    clientSecret: '',
+    hasClientSecret: false,
+    oidcScopes: '',
+    headers: [],
+    color: 'gray',
+    caFile: '',
+    clientCertFile: '',
+    clientKeyFile: '',
+    allowInsecureTls: false,
+    proxyUrl: '',
+    ...overrides,
+  };
+}
+
+export function isSecretHeader(name: string): boolean {
+  return /key|token|secret|password|auth/i.test(name);
+}
+
+// The localStorage fallback may still hold the pre-profiles { weaviateUrl, apiKey } shape
+function migrateStoredSettings(stored: Record<string, unknown>): Settings {
+  if (Array.isArray(stored.profiles)) {
+    return stored as unknown as Settings;
+  }
+  if (typeof stored.weaviateUrl === 'string' && stored.weaviateUrl) {
+    const profile = createProfile({
+      name: 'Default',
+      weaviateUrl: stored.weaviateUrl,
+      apiKey: typeof stored.apiKey === 'string' ? stored.apiKey : '',
+    });
+    return { profiles: [profile], activeProfileId: profile.id };
+  }
+  return { profiles: [], activeProfileId: null };
+}
+
+function readSessionSecrets(): Record<string, string> {
+  const stored = sessionStorage.getItem(SECRETS_KEY);
+  return stored ? JSON.parse(stored) : {};
+}
+
+function writeFallbackSettings(settings: Settings) {
+  const existingSecrets = readSessionSecrets();
+  const secrets: Record<string, string> = {};
+  const profiles = settings.profiles.map((p) => {
+    const stripped = { ...p };
+    for (const [field, flag] of SECRET_FIELD_ENTRIES) {
+      const value = p[field] || (p[flag] ? existingSecrets[`${p.id}:${field}`] : '');
+      if (value) {
+        secrets[`${p.id}:${field}`] = value;
+      }
+      stripped[field] = '';
+      stripped[flag] = !!value;
+    }
+    stripped.headers = p.headers.map((h) => {
+      if (!isSecretHeader(h.name)) return h;
+      secrets[`${p.id}:header:${h.name}`] = h.value;
+      return { ...h, value: '' };
+    });
+    return stripped;
+  });
+  sessionStorage.setItem(SECRETS_KEY, JSON.stringify(secrets));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...settings, profiles }));
 }
 
 export async function getSettings(): Promise<Settings> {
@@ -8,11 +161,38 @@ export async function getSettings(): Promise<Settings> {
     return await window.electronAPI.getSettings();
   }
   // Fallback for development/testing
-  const stored = localStorage.getItem('weaviate-settings');
-  if (stored) {
-    return JSON.parse(stored);
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) {
+    return { profiles: [], activeProfileId: null };
   }
-  return { weaviateUrl: '', apiKey: '' };
+
+  const settings = migrateStoredSettings(JSON.parse(stored));
+  const secrets = readSessionSecrets();
+  const hasPlaintextKeys = settings.profiles.some(
+    (p) =>
+      SECRET_FIELD_ENTRIES.some(([field]) => p[field]) ||
+      p.headers?.some((h) => isSecretHeader(h.name) && h.value),
+  );
+  const merged = {
+    ...settings,
+    profiles: settings.profiles.map((p) => {
+      const profile = { ...createProfile(), ...p };
+      for (const [field, flag] of SECRET_FIELD_ENTRIES) {
+        profile[field] = p[field] || secrets[`${p.id}:${field}`] || '';
+        profile[flag] = !!profile[field];
+      }
+      profile.headers = profile.headers.map((h) => ({
+        ...h,
+        value: h.value || secrets[`${p.id}:header:${h.name}`] || '',
+      }));
+      return profile;
+    }),
+  };
+  if (hasPlaintextKeys) {
+    // Older versions persisted secrets in localStorage; move them out
+    writeFallbackSettings(merged);
+  }
+  return merged;
 }
 
 export async function saveSettings(settings: Settings): Promise<void> {
@@ -20,6 +200,27 @@ export async function saveSettings(settings: Settings): Promise<void> {
     await window.electronAPI.saveSettings(settings);
   } else {
     // Fallback for development/testing
-    localStorage.setItem('weaviate-settings', JSON.stringify(settings));
+    writeFallbackSettings(settings);
+  }
+}
+
+export async function getSecretStorageStatus(): Promise<SecretStorageStatus> {
+  if (window.electronAPI) {
+    return await window.electronAPI.getSecretStorageStatus();
+  }
+  return { backend: 'sessionStorage', encrypted: false };
+}
+
+export async function getActiveProfile(): Promise<ConnectionProfile | null> {
+  const settings = await getSettings();
+  return settings.profiles.find((p) => p.id === settings.activeProfileId) ?? null;
+}
+
+export async function setActiveProfile(profileId: string): Promise<void> {
+  if (window.electronAPI) {
+    await window.electronAPI.setActiveProfile(profileId);
+  } else {
+    const settings = await getSettings();
+    await saveSettings({ ...settings, activeProfileId: profileId });
   }
 }
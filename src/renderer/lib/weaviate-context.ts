@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import { WeaviateClient } from './weaviate';
+
+// App provides the client for the active connection profile
+export const WeaviateClientContext = createContext<WeaviateClient | null>(null);
+
+export function useWeaviateClient(): WeaviateClient {
+  const client = useContext(WeaviateClientContext);
+  if (!client) {
+    throw new Error('useWeaviateClient must be used inside WeaviateClientContext.Provider');
+  }
+  return client;
+}
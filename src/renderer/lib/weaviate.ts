@@ -1,618 +1,1376 @@
-import { getSettings } from './settings';
+import { ConnectionProfile, getActiveProfile, HeaderEntry } from './settings';
+import { buildQuery, enumValue, GraphQLValue, identifier, onType, Selection } from './graphql';
+import { toGraphQLWhere, WhereFilter } from './filters';
 
-type SortConfig = {
+export interface SortKey {
   property: string;
   order: 'asc' | 'desc';
-} | null;
+}
+
+// Sort keys in priority order; empty for insertion order
+export type SortConfig = SortKey[];
+
+const SORTABLE_TYPES = ['text', 'string', 'int', 'number', 'boolean', 'date', 'uuid'];
+
+/** Object metadata Weaviate can sort by, as sort paths. */
+export const SORTABLE_METADATA = {
+  _creationTimeUnix: 'Created',
+  _lastUpdateTimeUnix: 'Last updated',
+} as const;
+
+// Arrays, geo coordinates, blobs and references can't be sorted on
+export function isSortable(dataType: string): boolean {
+  return SORTABLE_TYPES.includes(dataType);
+}
+
+// What Aggregate can compute per data type; arrays aggregate like their elements
+const AGGREGATE_FIELDS: Record<string, Selection> = {
+  text: ['count', { topOccurrences: ['value', 'occurs'] }],
+  string: ['count', { topOccurrences: ['value', 'occurs'] }],
+  int: ['count', 'minimum', 'maximum', 'mean', 'median', 'mode', 'sum'],
+  number: ['count', 'minimum', 'maximum', 'mean', 'median', 'mode', 'sum'],
+  boolean: ['count', 'totalTrue', 'totalFalse', 'percentageTrue', 'percentageFalse'],
+  date: ['count', 'minimum', 'maximum'],
+};
+
+export function isAggregatable(dataType: string): boolean {
+  return dataType.replace('[]', '') in AGGREGATE_FIELDS;
+}
+
+/** Aggregate results for one property; which fields are set depends on its type. */
+export interface PropertyStats {
+  count?: number;
+  topOccurrences?: { value: string; occurs: number }[];
+  // Numbers, or RFC 3339 strings for dates
+  minimum?: number | string;
+  maximum?: number | string;
+  mean?: number;
+  median?: number;
+  mode?: number;
+  sum?: number;
+  totalTrue?: number;
+  totalFalse?: number;
+  percentageTrue?: number;
+  percentageFalse?: number;
+}
+
+export interface AggregateGroup {
+  // Set when the query was grouped
+  groupedBy?: { path: string[]; value: string };
+  count: number;
+  properties: Record<string, PropertyStats>;
+}
 
 export interface CollectionInfo {
   name: string;
   description?: string;
-  count: number;
+  // null until getObjectCounts reports it
+  count: number | null;
+  // Set when the count query failed; count is 0 then
+  countError?: string;
   properties: {
     name: string;
     description?: string;
     dataType?: string[];
+    nestedProperties?: NestedProperty[];
   }[];
+  // Objects live in tenants; reads and writes must name one
+  multiTenancy?: boolean;
 }
 
 export type CollectionData = Record<string, unknown>;
 
-let currentUrl: string = '';
-let currentApiKey: string = '';
+export interface QueryOptions {
+  sort?: SortConfig;
+  where?: WhereFilter | null;
+  limit?: number;
+  offset?: number;
+  // Cursor: the id of the last object of the previous page. Weaviate doesn't
+  // allow it together with sort, where or offset.
+  after?: string;
+  // Also fetch the object's vector(s) into _additional
+  includeVector?: boolean;
+}
 
-export async function initializeWeaviate() {
-  const settings = await getSettings();
-  console.log('Initializing Weaviate with settings:', {
-    weaviateUrl: settings.weaviateUrl ? `${settings.weaviateUrl.substring(0, 20)}...` : '(empty)',
-    hasApiKey: !!settings.apiKey,
-  });
-  currentUrl = settings.weaviateUrl;
-  currentApiKey = settings.apiKey;
-  
-  if (!currentUrl || currentUrl.trim() === '') {
-    console.warn('Weaviate URL is empty after initialization');
-  }
+export type CollectionCount = Pick<CollectionInfo, 'count' | 'countError'>;
+
+// Aggregate queries in flight at once when counting collections
+const COUNT_CONCURRENCY = 6;
+
+export type WeaviateClass = {
+  class: string;
+  description?: string;
+  properties?: {
+    name: string;
+    dataType: string[];
+    description?: string;
+    nestedProperties?: NestedProperty[];
+  }[];
+  // Named vectors, keyed by name
+  vectorConfig?: Record<string, unknown>;
+  vectorizer?: string;
+  moduleConfig?: Record<string, unknown>;
+  vectorIndexType?: string;
+  // Servers return more settings than the app edits; keep them for PUT
+  vectorIndexConfig?: VectorIndexConfig & Record<string, unknown>;
+  invertedIndexConfig?: InvertedIndexConfig & Record<string, unknown>;
+  replicationConfig?: { factor?: number } & Record<string, unknown>;
+  multiTenancyConfig?: { enabled?: boolean; autoTenantCreation?: boolean; autoTenantActivation?: boolean };
+};
+
+/** A sub-property of an `object` or `object[]` property, as the schema lists it. */
+export interface NestedProperty {
+  name: string;
+  dataType: string[];
+  description?: string;
+  nestedProperties?: NestedProperty[];
 }
 
-export function getWeaviateUrl(): string {
-  return currentUrl || 'URL not configured';
+/** A property as the app defines it; `toPropertyPayload` turns it into Weaviate's form. */
+export interface PropertySchema {
+  name: string;
+  dataType: string[];
+  description?: string;
+  // Text only; unset uses the server default ("word")
+  tokenization?: string;
+  indexFilterable?: boolean;
+  indexSearchable?: boolean;
+  // Leave the property out of the vectorizer's input
+  skipVectorization?: boolean;
+  // Required for object and object[]
+  nestedProperties?: PropertySchema[];
+}
+
+export interface VectorIndexConfig {
+  distance?: string;
+  ef?: number;
+  efConstruction?: number;
+  maxConnections?: number;
+  pq?: { enabled: boolean; segments?: number; trainingLimit?: number };
+  bq?: { enabled: boolean };
+  // Dynamic indexes only: objects before switching from flat to hnsw, and the
+  // settings of each of the two
+  threshold?: number;
+  hnsw?: VectorIndexConfig;
+  flat?: VectorIndexConfig;
+}
+
+export interface InvertedIndexConfig {
+  bm25?: { k1: number; b: number };
+  stopwords?: { preset: string; additions?: string[]; removals?: string[] };
+  indexTimestamps?: boolean;
+  indexNullState?: boolean;
+  indexPropertyLength?: boolean;
+}
+
+export interface CreateCollectionSchema {
+  class: string;
+  description?: string;
+  properties: PropertySchema[];
+  // Module name, e.g. "text2vec-openai"; "none" or unset to bring your own vectors
+  vectorizer?: string;
+  // Per-module settings, keyed by module name
+  moduleConfig?: Record<string, Record<string, unknown>>;
+  vectorIndexType?: string;
+  vectorIndexConfig?: VectorIndexConfig;
+  invertedIndexConfig?: InvertedIndexConfig;
+  multiTenancy?: boolean;
 }
 
-async function getHeaders(): Promise<HeadersInit> {
-  const headers: HeadersInit = {
+/** A tenant of a multi-tenant collection. */
+export interface Tenant {
+  name: string;
+  // HOT or COLD; Weaviate 1.26+ reports ACTIVE, INACTIVE or OFFLOADED instead
+  activityStatus?: string;
+}
+
+// COLD tenants keep their data but can't be read or written until made HOT again
+export const TENANT_STATUSES = ['HOT', 'COLD'];
+
+export type SearchType = 'bm25' | 'vector' | 'hybrid';
+
+export interface SearchOptions {
+  query: string;
+  collectionName: string;
+  searchType?: SearchType;
+  limit?: number;
+  properties?: string[];
+  includeVector?: boolean;
+}
+
+export interface BatchObject {
+  class: string;
+  properties: Record<string, unknown>;
+  id?: string;
+  vector?: number[];
+  tenant?: string;
+}
+
+export interface BatchObjectResult {
+  id?: string;
+  class: string;
+  result?: {
+    errors?: { error: { message: string }[] };
+  };
+}
+
+/** What a batch delete matched and did. */
+export interface BatchDeleteResult {
+  matches: number;
+  // Most objects one request will delete
+  limit: number;
+  successful: number;
+  failed: number;
+  // Only the ones that failed
+  objects: { id: string; status: string; errors?: { error: { message: string }[] } }[];
+}
+
+/** A `geoCoordinates` value. */
+export interface GeoCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * A `phoneNumber` value. Clients send `input` (and `defaultCountry` for
+ * numbers without a country code); Weaviate fills in the parsed fields.
+ */
+export interface PhoneNumber {
+  input: string;
+  // ISO 3166-1 alpha-2, e.g. "nl"
+  defaultCountry?: string;
+  internationalFormatted?: string;
+  countryCode?: number;
+  national?: number;
+  nationalFormatted?: string;
+  valid?: boolean;
+}
+
+/** A reference as the REST API stores it, e.g. `weaviate://localhost/Author/<uuid>`. */
+export interface Beacon {
+  beacon: string;
+  href?: string;
+}
+
+/** An object as the REST API returns it, with everything it knows about it. */
+export interface WeaviateObject {
+  id: string;
+  class: string;
+  properties: Record<string, unknown>;
+  // Milliseconds since the epoch
+  creationTimeUnix?: number;
+  lastUpdateTimeUnix?: number;
+  vector?: number[];
+  // Named vectors, for collections configured with more than one
+  vectors?: Record<string, number[] | number[][]>;
+  tenant?: string;
+  additional?: Record<string, unknown>;
+}
+
+export interface GraphQLErrorDetail {
+  message: string;
+  locations?: { line: number; column: number }[];
+  path?: (string | number)[];
+}
+
+export interface GraphQLResponse {
+  data?: Record<string, unknown>;
+  errors?: GraphQLErrorDetail[];
+}
+
+/**
+ * Raised by every WeaviateClient method. `status` is null when no HTTP response
+ * came back (network, TLS, sign-in). GraphQL reports most failures with HTTP 200
+ * and an `errors` array, which ends up in `graphqlErrors`.
+ */
+export class WeaviateError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null = null,
+    readonly graphqlErrors: GraphQLErrorDetail[] = [],
+  ) {
+    super(message);
+    this.name = 'WeaviateError';
+  }
+}
+
+function buildHeaders(customHeaders: HeaderEntry[], apiKey: string): Record<string, string> {
+  const headers: Record<string, string> = {
     'Content-Type': 'application/json',
   };
-  
-  if (currentApiKey) {
-    headers['Authorization'] = `Bearer ${currentApiKey}`;
+
+  for (const header of customHeaders) {
+    if (header.name.trim()) {
+      headers[header.name.trim()] = header.value;
+    }
   }
-  
+
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
   return headers;
 }
 
-export async function executeQuery(queryStr: string): Promise<any> {
-  try {
-    // Initialize first to load settings
-    await initializeWeaviate();
-    
-    // Check URL after initialization
-    if (!currentUrl || currentUrl.trim() === '') {
-      throw new Error('Weaviate URL is not configured. Please set it in Settings.');
+// Weaviate keeps these for itself
+const RESERVED_PROPERTY_NAMES = ['_additional', '_id', 'id'];
+
+const PROPERTY_NAME_PATTERN = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+/** Why a new property can't have this name, or null if it can. Names clash regardless of case. */
+export function propertyNameError(name: string, existing: { name: string }[]): string | null {
+  if (!PROPERTY_NAME_PATTERN.test(name)) {
+    return `"${name}" must start with a letter or underscore and contain only letters, digits and underscores`;
+  }
+  if (RESERVED_PROPERTY_NAMES.includes(name.toLowerCase())) {
+    return `"${name}" is reserved by Weaviate`;
+  }
+  if (existing.some((p) => p.name.toLowerCase() === name.toLowerCase())) {
+    return `A property named "${name}" already exists`;
+  }
+  return null;
+}
+
+/**
+ * Trims names and descriptions and drops unnamed properties, down through
+ * nested ones, throwing on the first invalid name or empty object type.
+ * `existing` are names already taken at the top level.
+ */
+export function cleanProperties(properties: PropertySchema[], existing: { name: string }[] = []): PropertySchema[] {
+  const cleaned: PropertySchema[] = [];
+  for (const property of properties) {
+    const name = property.name.trim();
+    if (!name) continue;
+    const nameError = propertyNameError(name, [...existing, ...cleaned]);
+    if (nameError) {
+      throw new Error(nameError);
     }
 
-    const headers = await getHeaders();
-    const response = await fetch(`${currentUrl}/v1/graphql`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({ query: queryStr }),
-    });
+    let nestedProperties: PropertySchema[] | undefined;
+    if (isObjectType(property.dataType[0] ?? '')) {
+      nestedProperties = cleanProperties(property.nestedProperties ?? []);
+      if (nestedProperties.length === 0) {
+        throw new Error(`"${name}" needs at least one nested property`);
+      }
+    }
+    cleaned.push({ ...property, name, description: property.description?.trim() || undefined, nestedProperties });
+  }
+  return cleaned;
+}
 
-    if (!response.ok) {
-      console.error(`GraphQL query failed with status: ${response.status} ${response.statusText}`);
-      throw new Error(`Query failed: ${response.statusText}`);
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/** The first `uuid` or `uuid[]` value in `values` that isn't a UUID, as a message, or null. */
+export function uuidValueError(
+  properties: { name: string; dataType?: string[] }[],
+  values: Record<string, unknown>,
+): string | null {
+  for (const property of properties) {
+    const dataType = property.dataType?.[0];
+    if (dataType !== 'uuid' && dataType !== 'uuid[]') continue;
+    const value = values[property.name];
+    const items = Array.isArray(value) ? value : value === undefined || value === null || value === '' ? [] : [value];
+    const invalid = items.find((item) => typeof item !== 'string' || !isUuid(item));
+    if (invalid !== undefined) {
+      return `${property.name}: "${invalid}" is not a UUID`;
+    }
+  }
+  return null;
+}
+
+export function isObjectType(dataType: string): boolean {
+  return dataType === 'object' || dataType === 'object[]';
+}
+
+/**
+ * Reference properties name their target collections as the data type, e.g.
+ * `["Author"]`. Collection names are capitalized; primitive types never are.
+ */
+export function isReferenceType(dataType: string): boolean {
+  return /^[A-Z]/.test(dataType);
+}
+
+export function toBeacon(className: string, objectId: string): Beacon {
+  return { beacon: `weaviate://localhost/${className}/${objectId}` };
+}
+
+/** Where a beacon points. Beacons written before Weaviate 1.14 don't name the collection. */
+export function parseBeacon(beacon: string): { className?: string; id: string } | null {
+  const match = /^weaviate:\/\/[^/]+\/(?:([^/]+)\/)?([^/]+)$/.exec(beacon);
+  return match ? { className: match[1], id: match[2] } : null;
+}
+
+/** Ids of the objects a reference points to, from a GraphQL result. */
+export function referenceIds(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((ref) => (ref as { _additional?: { id?: string } } | null)?._additional?.id)
+    .filter((id): id is string => !!id);
+}
+
+// Types that are read as objects with fixed fields
+const COMPOUND_FIELDS: Record<string, Selection> = {
+  geoCoordinates: ['latitude', 'longitude'],
+  phoneNumber: [
+    'input',
+    'defaultCountry',
+    'internationalFormatted',
+    'countryCode',
+    'national',
+    'nationalFormatted',
+    'valid',
+  ],
+};
+
+type SelectableProperty = { name: string; dataType: string | string[]; nestedProperties?: SelectableProperty[] };
+
+// References need a fragment per target collection; the id is enough to link to
+// the target. Objects list their nested properties, all the way down.
+function propertySelection(properties: SelectableProperty[]): Selection {
+  return properties.flatMap((p): Selection => {
+    const dataType = Array.isArray(p.dataType) ? p.dataType : [p.dataType];
+    if (isReferenceType(dataType[0] ?? '')) {
+      return [{ [p.name]: dataType.map((target) => ({ [onType(target)]: [{ _additional: ['id'] }] })) }];
     }
+    if (isObjectType(dataType[0] ?? '')) {
+      // An empty selection isn't valid GraphQL
+      return p.nestedProperties?.length ? [{ [p.name]: propertySelection(p.nestedProperties) }] : [];
+    }
+    const fields = COMPOUND_FIELDS[dataType[0] ?? ''];
+    return fields ? [{ [p.name]: fields }] : [p.name];
+  });
+}
+
+/** The property as POST /v1/schema expects it. */
+export function toPropertyPayload(property: PropertySchema, vectorizer?: string): Record<string, unknown> {
+  const dataType = property.dataType[0] || 'string';
+  return {
+    name: property.name,
+    dataType: isReferenceType(dataType) ? property.dataType : [toWeaviateDataType(dataType)],
+    description: property.description,
+    tokenization: property.tokenization,
+    indexFilterable: property.indexFilterable,
+    indexSearchable: property.indexSearchable,
+    // Nested properties take no vectorizer settings of their own
+    nestedProperties: property.nestedProperties?.map((nested) => toPropertyPayload(nested)),
+    // Skipping is configured on the vectorizer module
+    moduleConfig:
+      property.skipVectorization && vectorizer && vectorizer !== 'none'
+        ? { [vectorizer]: { skip: true } }
+        : undefined,
+  };
+}
+
+/** The whole class definition sent to create a collection. Undefined fields use server defaults. */
+export function toClassPayload(schema: CreateCollectionSchema): Record<string, unknown> {
+  // Ensure collection name starts with uppercase (Weaviate requirement)
+  const className = schema.class.charAt(0).toUpperCase() + schema.class.slice(1);
+
+  return {
+    class: className,
+    description: schema.description,
+    vectorizer: schema.vectorizer,
+    moduleConfig: schema.moduleConfig,
+    vectorIndexType: schema.vectorIndexType,
+    vectorIndexConfig: schema.vectorIndexConfig,
+    invertedIndexConfig: schema.invertedIndexConfig,
+    multiTenancyConfig: schema.multiTenancy ? { enabled: true } : undefined,
+    properties: schema.properties.map((prop) => toPropertyPayload(prop, schema.vectorizer)),
+  };
+}
 
-    const result = await response.json();
-    return result;
-  } catch (error) {
-    console.error('GraphQL query error:', error);
-    throw error;
+function toWeaviateDataType(dataType: string): string {
+  const isArray = dataType.includes('[]');
+  const baseType = dataType.replace('[]', '').toLowerCase();
+  let weaviateDataType: string;
+
+  switch (baseType) {
+    case 'string':
+    case 'text':
+      weaviateDataType = 'text';
+      break;
+    case 'int':
+    case 'number':
+    case 'boolean':
+    case 'date':
+    case 'object':
+    case 'uuid':
+      weaviateDataType = baseType;
+      break;
+    case 'geocoordinates':
+      weaviateDataType = 'geoCoordinates';
+      break;
+    case 'phonenumber':
+      weaviateDataType = 'phoneNumber';
+      break;
+    case 'blob':
+      weaviateDataType = 'blob';
+      break;
+    default:
+      throw new Error(`Unsupported data type: ${dataType}`);
   }
+
+  return isArray ? `${weaviateDataType}[]` : weaviateDataType;
 }
 
-export async function getCollections(): Promise<CollectionInfo[]> {
+// Pull a readable message out of a Weaviate REST error body
+function parseErrorMessage(errorText: string, fallback: string): string {
   try {
-    // Initialize first to load settings
-    await initializeWeaviate();
-    
-    // Check URL after initialization
-    if (!currentUrl || currentUrl.trim() === '') {
-      throw new Error('Weaviate URL is not configured. Please set it in Settings.');
-    }
-
-    console.log(`Connected to Weaviate at: ${currentUrl}`);
-    const headers = await getHeaders();
-    const response = await fetch(`${currentUrl}/v1/schema`, {
-      headers,
-    });
+    const errorJson = JSON.parse(errorText);
+    if (errorJson.error) {
+      if (Array.isArray(errorJson.error) && errorJson.error.length > 0) {
+        return errorJson.error[0].message || fallback;
+      } else if (typeof errorJson.error === 'string') {
+        return errorJson.error;
+      } else if (errorJson.error.message) {
+        return errorJson.error.message;
+      }
+    } else if (errorJson.message) {
+      return errorJson.message;
+    }
+  } catch {
+    if (errorText && errorText.length < 500) {
+      return `${fallback}. ${errorText}`;
+    }
+  }
+  return fallback;
+}
+
+// Appends the parameters that are set as a query string
+function withQuery(path: string, params: Record<string, string | undefined>): string {
+  const defined = Object.entries(params).filter((entry): entry is [string, string] => entry[1] !== undefined);
+  return defined.length > 0 ? `${path}?${new URLSearchParams(defined)}` : path;
+}
+
+// One class's entries under data.Get or data.Aggregate; undefined when the
+// response has no such section at all
+function classResults(
+  response: GraphQLResponse,
+  operation: 'Get' | 'Aggregate',
+  className: string,
+): Record<string, unknown>[] | undefined {
+  const byClass = response.data?.[operation] as Record<string, unknown> | null | undefined;
+  if (!byClass) return undefined;
+  const results = byClass[className];
+  return Array.isArray(results) ? results : [];
+}
+
+async function errorFromResponse(response: Response, fallback: string): Promise<WeaviateError> {
+  const errorText = await response.text().catch(() => '');
+  console.error(`${fallback}. Status: ${response.status} ${response.statusText}`, errorText);
+  return new WeaviateError(parseErrorMessage(errorText, `${fallback}: ${response.statusText || `HTTP ${response.status}`}`), response.status);
+}
+
+/**
+ * Talks to the Weaviate instance described by one connection profile.
+ * Create one per connection; components get it through WeaviateClientContext.
+ */
+export class WeaviateClient {
+  constructor(
+    private readonly profile: ConnectionProfile,
+    // Reads and writes in multi-tenant collections go to this tenant
+    readonly tenant?: string,
+    // Shared by the collection list, search and anything else needing property
+    // names; dropped whenever a client for this connection changes the schema
+    private readonly cache: { schema: Promise<WeaviateClass[]> | null } = { schema: null },
+  ) {}
+
+  /** A client for the same connection that works in `tenant`, sharing this one's schema cache. */
+  withTenant(tenant: string | undefined): WeaviateClient {
+    return new WeaviateClient(this.profile, tenant, this.cache);
+  }
+
+  get profileId(): string {
+    return this.profile.id;
+  }
+
+  get url(): string {
+    return this.profile.weaviateUrl || 'URL not configured';
+  }
+
+  // Requests go through the main-process bridge, which applies the profile's
+  // credentials, TLS and proxy settings. Outside Electron (plain `vite` during
+  // development) we fall back to calling Weaviate directly.
+  private async request(path: string, init: { method?: string; body?: string } = {}): Promise<Response> {
+    if (!this.profile.weaviateUrl || this.profile.weaviateUrl.trim() === '') {
+      throw new WeaviateError('Weaviate URL is not configured. Please set it in Settings.');
+    }
+
+    const method = init.method ?? 'GET';
+
+    if (window.electronAPI) {
+      const result = await window.electronAPI.weaviateRequest(this.profile.id, { method, path, body: init.body });
+      if (result.error) {
+        throw new WeaviateError(result.error);
+      }
+      const hasNullBody = [204, 205, 304].includes(result.status);
+      return new Response(hasNullBody ? null : result.body, {
+        status: result.status,
+        statusText: result.statusText,
+        headers: result.headers,
+      });
+    }
+
+    try {
+      return await fetch(`${this.profile.weaviateUrl.replace(/\/$/, '')}${path}`, {
+        method,
+        headers: buildHeaders(this.profile.headers, this.profile.apiKey),
+        body: init.body,
+      });
+    } catch (error) {
+      throw new WeaviateError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  async graphql(queryStr: string): Promise<GraphQLResponse> {
+    try {
+      const response = await this.request('/v1/graphql', {
+        method: 'POST',
+        body: JSON.stringify({ query: queryStr }),
+      });
+
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'Query failed');
+      }
+
+      const result: GraphQLResponse = await response.json();
+      if (result.errors && result.errors.length > 0) {
+        throw new WeaviateError(result.errors.map((e) => e.message).join('; '), response.status, result.errors);
+      }
+      return result;
+    } catch (error) {
+      console.error('GraphQL query error:', error);
+      throw error;
+    }
+  }
+
+  async getSchema(): Promise<WeaviateClass[]> {
+    if (!this.cache.schema) {
+      const pending = this.fetchSchema();
+      this.cache.schema = pending;
+      // Don't cache failures
+      pending.catch(() => {
+        if (this.cache.schema === pending) {
+          this.cache.schema = null;
+        }
+      });
+    }
+    return this.cache.schema;
+  }
+
+  /** Forget the cached schema, e.g. after it was changed outside this client. */
+  invalidateSchema(): void {
+    this.cache.schema = null;
+  }
+
+  // Collections without multi-tenancy reject requests that name a tenant, so
+  // references into them still work from a tenant's objects
+  private async tenantFor(className: string): Promise<string | undefined> {
+    if (!this.tenant) {
+      return undefined;
+    }
+    const collection = (await this.getSchema()).find((c) => c.class === className);
+    return collection?.multiTenancyConfig?.enabled ? this.tenant : undefined;
+  }
+
+  private async fetchSchema(): Promise<WeaviateClass[]> {
+    const response = await this.request('/v1/schema');
 
     if (!response.ok) {
-      console.error(`Failed to fetch schema. Status: ${response.status} ${response.statusText}`);
-      throw new Error(`Failed to fetch schema: ${response.statusText}`);
+      throw await errorFromResponse(response, 'Failed to fetch schema');
     }
 
     const schema: { classes?: WeaviateClass[] } = await response.json();
-    const classes = schema.classes ?? [];
-
-    const result: CollectionInfo[] = [];
-    for (const weavClass of classes) {
-      console.log(`\n*** Collection: ${weavClass.class}`);
-      console.log(`\tFetching object count`);
-      const count = await getObjectCount(weavClass.class);
-      console.log(`\tFetching properties`);
-      result.push({
+    return schema.classes ?? [];
+  }
+
+  async getCollections(): Promise<CollectionInfo[]> {
+    try {
+      console.log(`Connected to Weaviate at: ${this.profile.weaviateUrl}`);
+      const classes = await this.getSchema();
+
+      return classes.map((weavClass) => ({
         name: weavClass.class,
         description: weavClass.description,
-        count,
+        count: null,
         properties: weavClass.properties?.map((p) => ({
           name: p.name,
           dataType: p.dataType,
           description: p.description,
+          nestedProperties: p.nestedProperties,
         })) ?? [],
-      });
+        multiTenancy: !!weavClass.multiTenancyConfig?.enabled,
+      }));
+    } catch (error) {
+      console.error('Error fetching collections:', error);
+      throw error;
     }
+  }
 
-    return result;
-  } catch (error) {
-    console.error('Error fetching collections:', error);
-    throw error;
+  /**
+   * Counts the objects in each collection, a few at a time, calling `onCount`
+   * as each one arrives. A failed count is reported through `countError`
+   * instead of rejecting, so one unreadable collection doesn't hide the rest.
+   */
+  async getObjectCounts(
+    classNames: string[],
+    onCount: (className: string, result: CollectionCount) => void,
+  ): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+      while (next < classNames.length) {
+        const className = classNames[next++];
+        try {
+          onCount(className, { count: await this.getObjectCount(className) });
+        } catch (error) {
+          console.error(`Error fetching count for collection "${className}":`, error);
+          onCount(className, { count: 0, countError: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(COUNT_CONCURRENCY, classNames.length) }, worker));
   }
-}
 
-type WeaviateClass = {
-  class: string;
-  description?: string;
-  properties?: {
-    name: string;
-    dataType: string[];
-    description?: string;
-  }[];
-};
+  /** Objects in the collection, or only those matching `where`. */
+  async getObjectCount(className: string, where?: WhereFilter | null): Promise<number> {
+    const aggregateResponse = await this.graphql(
+      buildQuery(
+        'Aggregate',
+        className,
+        { where: where ? toGraphQLWhere(where) : undefined, tenant: await this.tenantFor(className) },
+        [{ meta: ['count'] }],
+      ),
+    );
+    const aggregateData = classResults(aggregateResponse, 'Aggregate', className) ?? [];
+    return (aggregateData[0]?.meta as { count?: number } | undefined)?.count ?? 0;
+  }
 
-async function executeAggregateQuery(queryStr: string, className: string): Promise<any> {
-  try {
-    // Ensure initialized (may have been called already, but safe to call again)
-    await initializeWeaviate();
-    
-    // Check URL after initialization
-    if (!currentUrl || currentUrl.trim() === '') {
-      throw new Error('Weaviate URL is not configured. Please set it in Settings.');
+  /**
+   * Statistics for the given properties over the whole collection, or over
+   * the objects matching `where`. With groupBy there's one entry per value of
+   * that property, up to groupLimit.
+   */
+  async aggregate(
+    className: string,
+    properties: { name: string; dataType: string[] }[],
+    { where, groupBy, groupLimit = 20 }: { where?: WhereFilter | null; groupBy?: string; groupLimit?: number } = {},
+  ): Promise<AggregateGroup[]> {
+    const fields = properties
+      .filter((p) => isAggregatable(p.dataType[0]))
+      .map((p) => ({ [p.name]: AGGREGATE_FIELDS[p.dataType[0].replace('[]', '')] }));
+
+    const selection: Selection = [{ meta: ['count'] }, ...fields];
+    if (groupBy) {
+      selection.unshift({ groupedBy: ['path', 'value'] });
     }
 
-    const headers = await getHeaders();
-    const response = await fetch(`${currentUrl}/v1/graphql`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({ query: queryStr }),
-    });
+    const response = await this.graphql(
+      buildQuery(
+        'Aggregate',
+        className,
+        {
+          where: where ? toGraphQLWhere(where) : undefined,
+          groupBy: groupBy ? [identifier(groupBy)] : undefined,
+          limit: groupBy ? groupLimit : undefined,
+          tenant: await this.tenantFor(className),
+        },
+        selection,
+      ),
+    );
 
-    if (!response.ok) {
-      console.error(`Query failed for collection "${className}". Status: ${response.status} ${response.statusText}`);
-      throw new Error(`Query failed: ${response.statusText}`);
-    }
+    const groups = classResults(response, 'Aggregate', className) ?? [];
+    return groups.map(({ groupedBy, meta, ...stats }) => ({
+      groupedBy: groupedBy as AggregateGroup['groupedBy'],
+      count: (meta as { count?: number } | undefined)?.count ?? 0,
+      properties: stats as Record<string, PropertyStats>,
+    }));
+  }
 
-    return response.json();
-  } catch (error) {
-    console.error(`Query error for collection "${className}":`, error);
-    throw error;
+  // _additional fields for the default vector and any named vectors
+  private async vectorSelection(className: string): Promise<Selection> {
+    const collection = (await this.getSchema()).find((c) => c.class === className);
+    const names = Object.keys(collection?.vectorConfig ?? {});
+    return names.length > 0 ? ['vector', { vectors: names }] : ['vector'];
   }
-}
 
-async function getObjectCount(className: string): Promise<number> {
-  const aggregateQuery = `
-    {
-      Aggregate {
-        ${className} {
-          meta {
-            count
-          }
-        }
+  async getCollectionData(
+    className: string,
+    properties: SelectableProperty[],
+    { sort, where, limit, offset, after, includeVector }: QueryOptions = {},
+  ): Promise<CollectionData[]> {
+    try {
+      const additional: Selection = ['id', 'creationTimeUnix', 'lastUpdateTimeUnix'];
+      if (includeVector) {
+        additional.push(...(await this.vectorSelection(className)));
+      }
+      const query = buildQuery(
+        'Get',
+        className,
+        {
+          where: where ? toGraphQLWhere(where) : undefined,
+          sort: sort?.length
+            ? sort.map((key) => ({ path: [identifier(key.property)], order: enumValue(key.order) }))
+            : undefined,
+          limit,
+          offset,
+          after,
+          tenant: await this.tenantFor(className),
+        },
+        [{ _additional: additional }, ...propertySelection(properties)],
+      );
+
+      console.log('Executing GraphQL query:', JSON.stringify({ query }, null, 2));
+      console.log(`\n*** Collection: ${className}`);
+      console.log(`\tFetching data`);
+      const response = await this.graphql(query);
+
+      const results = classResults(response, 'Get', className);
+      if (!results) {
+        throw new WeaviateError('Invalid response structure from Weaviate');
       }
+
+      return results;
+    } catch (error) {
+      console.error(`Error fetching data for collection "${className}":`, error);
+      throw error;
     }
-  `;
+  }
 
-  let aggregateResponse: any = null;
-  try {
-    aggregateResponse = await executeAggregateQuery(aggregateQuery, className);
-  } catch (error) {
-    console.error(`Error fetching count for collection "${className}":`, error);
-    return 0;
+  /**
+   * Yields every object in a collection, one page at a time. Plain walks use
+   * the `after` cursor, which has no upper bound; a sort or filter needs offset
+   * paging, which Weaviate stops at QUERY_MAXIMUM_RESULTS (10,000 by default).
+   */
+  async *iterateObjects(
+    className: string,
+    properties: SelectableProperty[],
+    {
+      sort,
+      where,
+      pageSize = 100,
+      includeVector,
+    }: { sort?: SortConfig; where?: WhereFilter | null; pageSize?: number; includeVector?: boolean } = {},
+  ): AsyncGenerator<CollectionData[], void, undefined> {
+    let offset = 0;
+    let after: string | undefined;
+
+    while (true) {
+      const page = sort?.length || where
+        ? await this.getCollectionData(className, properties, { sort, where, limit: pageSize, offset, includeVector })
+        : await this.getCollectionData(className, properties, { limit: pageSize, after, includeVector });
+
+      if (page.length > 0) {
+        yield page;
+      }
+      if (page.length < pageSize) {
+        return;
+      }
+
+      offset += page.length;
+      after = (page[page.length - 1]._additional as { id: string }).id;
+    }
   }
 
-  const aggregateData = aggregateResponse?.data.Aggregate[className] ?? [];
-  return aggregateData[0]?.meta?.count ?? 0;
-}
+  /**
+   * Deletes every object matching the filter in one request. Weaviate handles
+   * at most QUERY_MAXIMUM_RESULTS (10,000 by default) per call, so check
+   * `matches` against `limit`. With dryRun nothing is deleted.
+   */
+  async deleteObjectsWhere(className: string, where: WhereFilter, dryRun = false): Promise<BatchDeleteResult> {
+    try {
+      const path = withQuery('/v1/batch/objects', { tenant: await this.tenantFor(className) });
+      const response = await this.request(path, {
+        method: 'DELETE',
+        // Minimal output lists only the objects that failed
+        body: JSON.stringify({ match: { class: className, where }, dryRun, output: 'minimal' }),
+      });
 
-export async function getCollectionData(
-  className: string,
-  properties: { name: string; dataType: string | string[] }[],
-  sort?: SortConfig,
-  limit?: number,
-  offset?: number,
-): Promise<CollectionData[]> {
-  try {
-    await initializeWeaviate();
-    if (!currentUrl || currentUrl.trim() === '') {
-      throw new Error('Weaviate URL is not configured. Please set it in Settings.');
-    }
-    const sortDirective = sort
-      ? `sort: {
-          path: ["${sort.property}"],
-          order: ${sort.order.toLowerCase()}
-        }`
-      : '';
-
-    const paginationDirective = `limit: ${limit}, offset: ${offset}`;
-
-    const directives = [sortDirective, paginationDirective].filter(Boolean).join(', ');
-
-    const query = `{
-      Get {
-        ${className}${directives ? `(${directives})` : ''} {
-          _additional {
-            id
-          }
-          ${properties.map((p) => p.name).join('\n')}
-        }
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'Failed to delete objects');
       }
-    }`;
 
-    console.log('Executing GraphQL query:', JSON.stringify({ query }, null, 2));
+      const { results } = await response.json();
+      return { ...results, objects: results.objects ?? [] };
+    } catch (error) {
+      console.error(`Error deleting objects from collection "${className}":`, error);
+      throw error;
+    }
+  }
+
+  async deleteObjects(className: string, objectIds: string[], dryRun = false): Promise<BatchDeleteResult> {
+    return this.deleteObjectsWhere(
+      className,
+      { operator: 'ContainsAny', path: ['id'], valueTextArray: objectIds },
+      dryRun,
+    );
+  }
+
+  async deleteCollection(className: string): Promise<void> {
     console.log(`\n*** Collection: ${className}`);
-    console.log(`\tFetching data`);
-    const response = await executeQuery(query);
+    console.log(`\tDeleting collection`);
+    try {
+      const response = await this.request(`/v1/schema/${className}`, {
+        method: 'DELETE',
+      });
 
-    if (!response?.data?.Get) {
-      throw new Error('Invalid response structure from Weaviate');
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'Failed to delete collection');
+      }
+      this.invalidateSchema();
+    } catch (error) {
+      console.error(`Error deleting collection "${className}":`, error);
+      throw error;
     }
+  }
+
+  async createCollection(schema: CreateCollectionSchema): Promise<void> {
+    console.log(`\n*** Creating collection: ${schema.class}`);
 
-    return response.data.Get[className] || [];
-  } catch (error) {
-    console.error(`Error fetching data for collection "${className}":`, error);
-    throw error;
+    try {
+      const weaviateSchema = toClassPayload(schema);
+      const className = weaviateSchema.class;
+
+      console.log('Creating collection with schema:', JSON.stringify(weaviateSchema, null, 2));
+
+      const response = await this.request('/v1/schema', {
+        method: 'POST',
+        body: JSON.stringify(weaviateSchema),
+      });
+
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'Failed to create collection');
+      }
+
+      this.invalidateSchema();
+      const result = await response.json().catch(() => ({}));
+      console.log('Collection created successfully:', result);
+      console.log(`Successfully created collection: ${className}`);
+    } catch (error) {
+      console.error(`Error creating collection "${schema.class}":`, error);
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new WeaviateError(`Failed to create collection: ${String(error)}`);
+    }
+  }
+
+  /** The collection's full definition, fresh from the server. */
+  async getCollectionConfig(className: string): Promise<WeaviateClass> {
+    const response = await this.request(`/v1/schema/${className}`);
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Failed to fetch collection config');
+    }
+    return response.json();
   }
-}
 
-export async function deleteObjects(className: string, objectIds: string[]): Promise<void> {
-  console.log(`\n*** Collection: ${className}`);
-  console.log(`\tDeleting ${objectIds.length} objects`);
+  /**
+   * Replaces the collection's definition. Weaviate only accepts changes to
+   * mutable settings (description, BM25, stopwords, replication factor, some
+   * vector index parameters), so start from getCollectionConfig.
+   */
+  async updateCollection(config: WeaviateClass): Promise<void> {
+    console.log(`\n*** Updating collection: ${config.class}`);
+    try {
+      const response = await this.request(`/v1/schema/${config.class}`, {
+        method: 'PUT',
+        body: JSON.stringify(config),
+      });
 
-  await initializeWeaviate();
-  if (!currentUrl || currentUrl.trim() === '') {
-    throw new Error('Weaviate URL is not configured. Please set it in Settings.');
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'Failed to update collection');
+      }
+      this.invalidateSchema();
+    } catch (error) {
+      console.error(`Error updating collection "${config.class}":`, error);
+      throw error;
+    }
   }
-  const headers = await getHeaders();
 
-  for (const id of objectIds) {
+  async addProperty(className: string, property: PropertySchema): Promise<void> {
+    console.log(`\n*** Collection: ${className}`);
+    console.log(`\tAdding property ${property.name}`);
     try {
-      const response = await fetch(`${currentUrl}/v1/objects/${id}`, {
-        method: 'DELETE',
-        headers,
+      const collection = (await this.getSchema()).find((c) => c.class === className);
+      const response = await this.request(`/v1/schema/${className}/properties`, {
+        method: 'POST',
+        body: JSON.stringify(toPropertyPayload(property, collection?.vectorizer)),
       });
 
       if (!response.ok) {
-        console.error(`Failed to delete object "${id}". Status: ${response.status} ${response.statusText}`);
-        throw new Error(`Failed to delete object: ${response.statusText}`);
+        throw await errorFromResponse(response, 'Failed to add property');
       }
+      this.invalidateSchema();
     } catch (error) {
-      console.error(`Error deleting object "${id}":`, error);
+      console.error(`Error adding property to collection "${className}":`, error);
       throw error;
     }
   }
-}
 
-export async function deleteCollection(className: string): Promise<void> {
-  console.log(`\n*** Collection: ${className}`);
-  console.log(`\tDeleting collection`);
-  try {
-    await initializeWeaviate();
-    if (!currentUrl || currentUrl.trim() === '') {
-      throw new Error('Weaviate URL is not configured. Please set it in Settings.');
-    }
-    const headers = await getHeaders();
-    const response = await fetch(`${currentUrl}/v1/schema/${className}`, {
-      method: 'DELETE',
-      headers,
-    });
+  async createObject(className: string, object: Record<string, unknown>): Promise<string> {
+    console.log(`\n*** Creating object in collection: ${className}`);
+    try {
+      const response = await this.request('/v1/objects', {
+        method: 'POST',
+        body: JSON.stringify({
+          class: className,
+          properties: object,
+          tenant: await this.tenantFor(className),
+        }),
+      });
 
-    if (!response.ok) {
-      console.error(`Failed to delete collection "${className}". Status: ${response.status} ${response.statusText}`);
-      throw new Error(`Failed to delete collection: ${response.statusText}`);
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'Failed to create object');
+      }
+
+      const result = await response.json();
+      return result.id;
+    } catch (error) {
+      console.error(`Error creating object in collection "${className}":`, error);
+      throw error;
     }
-  } catch (error) {
-    console.error(`Error deleting collection "${className}":`, error);
-    throw error;
   }
-}
 
-export interface CreateCollectionSchema {
-  class: string;
-  description?: string;
-  properties: Array<{
-    name: string;
-    dataType: string[];
-    description?: string;
-  }>;
-}
+  /** The whole object, by default with its vectors, or null if it doesn't exist. */
+  async getObject(className: string, objectId: string, includeVector = true): Promise<WeaviateObject | null> {
+    console.log(`\n*** Fetching object ${objectId} from collection: ${className}`);
+    try {
+      const response = await this.request(
+        withQuery(`/v1/objects/${className}/${objectId}`, {
+          include: includeVector ? 'vector' : undefined,
+          tenant: await this.tenantFor(className),
+        }),
+      );
 
-export async function createCollection(schema: CreateCollectionSchema): Promise<void> {
-  console.log(`\n*** Creating collection: ${schema.class}`);
-  
-  try {
-    // Initialize first to load settings
-    await initializeWeaviate();
-    
-    // Check URL after initialization
-    if (!currentUrl || currentUrl.trim() === '') {
-      throw new Error('Weaviate URL is not configured. Please set it in Settings.');
-    }
-    
-    console.log('Current Weaviate URL:', currentUrl);
-    console.log('Has API Key:', !!currentApiKey);
-    
-    // Ensure URL doesn't end with slash
-    const baseUrl = currentUrl.replace(/\/$/, '');
-    
-    // Ensure collection name starts with uppercase (Weaviate requirement)
-    const className = schema.class.charAt(0).toUpperCase() + schema.class.slice(1);
-    
-    // Map dataType to Weaviate format
-    // Weaviate REST API uses lowercase: text, int, number, boolean, date, text[], int[], etc.
-    const mappedProperties = schema.properties.map((prop) => {
-      const dataType = prop.dataType[0] || 'string';
-      let weaviateDataType: string;
-      
-      if (dataType.includes('[]')) {
-        // Array type - format: "text[]", "int[]", etc.
-        const baseType = dataType.replace('[]', '').toLowerCase();
-        switch (baseType) {
-          case 'string':
-          case 'text':
-            weaviateDataType = 'text[]';
-            break;
-          case 'int':
-            weaviateDataType = 'int[]';
-            break;
-          case 'number':
-            weaviateDataType = 'number[]';
-            break;
-          case 'boolean':
-            weaviateDataType = 'boolean[]';
-            break;
-          case 'date':
-            weaviateDataType = 'date[]';
-            break;
-          default:
-            weaviateDataType = 'text[]';
-        }
-      } else {
-        // Single type - format: "text", "int", "number", etc.
-        const lowerType = dataType.toLowerCase();
-        switch (lowerType) {
-          case 'string':
-          case 'text':
-            weaviateDataType = 'text';
-            break;
-          case 'int':
-            weaviateDataType = 'int';
-            break;
-          case 'number':
-            weaviateDataType = 'number';
-            break;
-          case 'boolean':
-            weaviateDataType = 'boolean';
-            break;
-          case 'date':
-            weaviateDataType = 'date';
-            break;
-          default:
-            weaviateDataType = 'text';
+      if (!response.ok) {
+        if (response.status === 404) {
+          return null;
         }
+        throw await errorFromResponse(response, 'Failed to fetch object');
       }
-      
-      return {
-        name: prop.name,
-        dataType: [weaviateDataType],
-        description: prop.description,
-      };
-    });
 
-    const weaviateSchema = {
-      class: className,
-      description: schema.description,
-      properties: mappedProperties,
-    };
+      return await response.json();
+    } catch (error) {
+      console.error(`Error fetching object from collection "${className}":`, error);
+      throw error;
+    }
+  }
 
-    console.log('Creating collection with schema:', JSON.stringify(weaviateSchema, null, 2));
+  async getObjectById(className: string, objectId: string): Promise<CollectionData | null> {
+    const object = await this.getObject(className, objectId, false);
+    // Return just the properties for editing
+    return object ? object.properties || {} : null;
+  }
 
-    const headers = await getHeaders();
-    const url = `${baseUrl}/v1/schema`;
-    console.log('POST URL:', url);
-    console.log('Request headers:', headers);
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(weaviateSchema),
-    });
+  async updateObject(className: string, objectId: string, object: Record<string, unknown>): Promise<void> {
+    console.log(`\n*** Updating object ${objectId} in collection: ${className}`);
+    try {
+      const response = await this.request(`/v1/objects/${className}/${objectId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({
+          class: className,
+          properties: object,
+          tenant: await this.tenantFor(className),
+        }),
+      });
 
-    if (!response.ok) {
-      let errorText = '';
-      try {
-        errorText = await response.text();
-      } catch {
-        errorText = 'Unknown error';
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'Failed to update object');
       }
-      
-      console.error(`Failed to create collection "${schema.class}". Status: ${response.status} ${response.statusText}`);
-      console.error('Response body:', errorText);
-      
-      // Try to parse error as JSON for better error messages
-      let errorMessage = `Failed to create collection: ${response.statusText}`;
-      try {
-        const errorJson = JSON.parse(errorText);
-        if (errorJson.error) {
-          if (Array.isArray(errorJson.error) && errorJson.error.length > 0) {
-            errorMessage = errorJson.error[0].message || errorMessage;
-          } else if (typeof errorJson.error === 'string') {
-            errorMessage = errorJson.error;
-          } else if (errorJson.error.message) {
-            errorMessage = errorJson.error.message;
-          }
-        } else if (errorJson.message) {
-          errorMessage = errorJson.message;
-        }
-      } catch {
-        if (errorText && errorText.length < 500) {
-          errorMessage = `${errorMessage}. ${errorText}`;
-        }
+    } catch (error) {
+      console.error(`Error updating object in collection "${className}":`, error);
+      throw error;
+    }
+  }
+
+  /** Points one more reference of `property` at `target`. */
+  async addReference(
+    className: string,
+    objectId: string,
+    property: string,
+    target: { className: string; id: string },
+  ): Promise<void> {
+    console.log(`\n*** Adding ${property} reference to object ${objectId} in collection: ${className}`);
+    try {
+      const path = withQuery(`/v1/objects/${className}/${objectId}/references/${property}`, {
+        tenant: await this.tenantFor(className),
+      });
+      const response = await this.request(path, {
+        method: 'POST',
+        body: JSON.stringify(toBeacon(target.className, target.id)),
+      });
+
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'Failed to add reference');
       }
-      
-      throw new Error(errorMessage);
+    } catch (error) {
+      console.error(`Error adding reference to object in collection "${className}":`, error);
+      throw error;
     }
+  }
 
-    const result = await response.json().catch(() => ({}));
-    console.log('Collection created successfully:', result);
-    console.log(`Successfully created collection: ${className}`);
-  } catch (error) {
-    console.error(`Error creating collection "${schema.class}":`, error);
-    if (error instanceof Error) {
+  /** Removes one reference; `beacon` is given exactly as the object stores it. */
+  async deleteReference(className: string, objectId: string, property: string, beacon: string): Promise<void> {
+    console.log(`\n*** Removing ${property} reference from object ${objectId} in collection: ${className}`);
+    try {
+      const path = withQuery(`/v1/objects/${className}/${objectId}/references/${property}`, {
+        tenant: await this.tenantFor(className),
+      });
+      const response = await this.request(path, {
+        method: 'DELETE',
+        body: JSON.stringify({ beacon }),
+      });
+
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'Failed to remove reference');
+      }
+    } catch (error) {
+      console.error(`Error removing reference from object in collection "${className}":`, error);
       throw error;
     }
-    throw new Error(`Failed to create collection: ${String(error)}`);
   }
-}
 
-export async function createObject(className: string, object: Record<string, unknown>): Promise<string> {
-  console.log(`\n*** Creating object in collection: ${className}`);
-  try {
-    await initializeWeaviate();
-    if (!currentUrl || currentUrl.trim() === '') {
-      throw new Error('Weaviate URL is not configured. Please set it in Settings.');
+  /** Which of a reference's target collections holds the object, or null if none does. */
+  async findReferenceTarget(targets: string[], objectId: string): Promise<string | null> {
+    if (targets.length === 1) {
+      return targets[0];
     }
-    const headers = await getHeaders();
-    const response = await fetch(`${currentUrl}/v1/objects`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        class: className,
-        properties: object,
-      }),
-    });
+    for (const target of targets) {
+      if (await this.getObject(target, objectId, false)) {
+        return target;
+      }
+    }
+    return null;
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Failed to create object. Status: ${response.status} ${response.statusText}`);
-      throw new Error(`Failed to create object: ${response.statusText}. ${errorText}`);
+  async getTenants(className: string): Promise<Tenant[]> {
+    console.log(`\n*** Fetching tenants of collection: ${className}`);
+    try {
+      const response = await this.request(`/v1/schema/${className}/tenants`);
+
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'Failed to fetch tenants');
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error(`Error fetching tenants of collection "${className}":`, error);
+      throw error;
     }
+  }
 
-    const result = await response.json();
-    return result.id;
-  } catch (error) {
-    console.error(`Error creating object in collection "${className}":`, error);
-    throw error;
+  // POST adds tenants, PUT changes their activity status
+  private async writeTenants(className: string, method: 'POST' | 'PUT', tenants: Tenant[]): Promise<void> {
+    console.log(`\n*** ${method} ${tenants.length} tenants of collection: ${className}`);
+    try {
+      const response = await this.request(`/v1/schema/${className}/tenants`, {
+        method,
+        body: JSON.stringify(tenants),
+      });
+
+      if (!response.ok) {
+        throw await errorFromResponse(response, `Failed to ${method === 'POST' ? 'add' : 'update'} tenants`);
+      }
+    } catch (error) {
+      console.error(`Error writing tenants of collection "${className}":`, error);
+      throw error;
+    }
   }
-}
 
-export async function getObjectById(className: string, objectId: string): Promise<CollectionData | null> {
-  console.log(`\n*** Fetching object ${objectId} from collection: ${className}`);
-  try {
-    await initializeWeaviate();
-    if (!currentUrl || currentUrl.trim() === '') {
-      throw new Error('Weaviate URL is not configured. Please set it in Settings.');
+  async addTenants(className: string, tenants: Tenant[]): Promise<void> {
+    return this.writeTenants(className, 'POST', tenants);
+  }
+
+  async updateTenants(className: string, tenants: Tenant[]): Promise<void> {
+    return this.writeTenants(className, 'PUT', tenants);
+  }
+
+  /** Removes tenants along with all of their objects. */
+  async deleteTenants(className: string, names: string[]): Promise<void> {
+    console.log(`\n*** Deleting tenants ${names.join(', ')} of collection: ${className}`);
+    try {
+      const response = await this.request(`/v1/schema/${className}/tenants`, {
+        method: 'DELETE',
+        body: JSON.stringify(names),
+      });
+
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'Failed to delete tenants');
+      }
+    } catch (error) {
+      console.error(`Error deleting tenants of collection "${className}":`, error);
+      throw error;
     }
-    const headers = await getHeaders();
-    const response = await fetch(`${currentUrl}/v1/objects/${objectId}`, {
-      headers,
+  }
+
+  async batchCreateObjects(objects: BatchObject[]): Promise<BatchObjectResult[]> {
+    console.log(`\n*** Batch creating ${objects.length} objects`);
+    const withTenants = await Promise.all(
+      objects.map(async (object) => ({ ...object, tenant: object.tenant ?? (await this.tenantFor(object.class)) })),
+    );
+    const response = await this.request('/v1/batch/objects', {
+      method: 'POST',
+      body: JSON.stringify({ objects: withTenants }),
     });
 
     if (!response.ok) {
-      if (response.status === 404) {
-        return null;
-      }
-      console.error(`Failed to fetch object. Status: ${response.status} ${response.statusText}`);
-      throw new Error(`Failed to fetch object: ${response.statusText}`);
+      throw await errorFromResponse(response, 'Batch request failed');
     }
 
-    const result = await response.json();
-    // Return just the properties for editing
-    return result.properties || {};
-  } catch (error) {
-    console.error(`Error fetching object from collection "${className}":`, error);
-    throw error;
+    return response.json();
   }
-}
 
-export async function updateObject(className: string, objectId: string, object: Record<string, unknown>): Promise<void> {
-  console.log(`\n*** Updating object ${objectId} in collection: ${className}`);
-  try {
-    await initializeWeaviate();
-    if (!currentUrl || currentUrl.trim() === '') {
-      throw new Error('Weaviate URL is not configured. Please set it in Settings.');
-    }
-    const headers = await getHeaders();
-    const response = await fetch(`${currentUrl}/v1/objects/${objectId}`, {
-      method: 'PATCH',
-      headers,
-      body: JSON.stringify({
-        class: className,
-        properties: object,
-      }),
-    });
+  async search(options: SearchOptions): Promise<CollectionData[]> {
+    try {
+      const { query, collectionName, searchType = 'bm25', limit = 10, properties, includeVector } = options;
+      const limitValue = limit || 10;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Failed to update object. Status: ${response.status} ${response.statusText}`);
-      throw new Error(`Failed to update object: ${response.statusText}. ${errorText}`);
+      const searchProperties = properties && properties.length > 0 ? properties.map(identifier) : undefined;
+      const searchArgs: Record<string, GraphQLValue | undefined> = {};
+
+      if (searchType === 'bm25') {
+        // BM25 (keyword) search
+        searchArgs.bm25 = { query, properties: searchProperties };
+      } else if (searchType === 'vector') {
+        // Vector search (requires a vectorizer, using nearText as fallback)
+        searchArgs.nearText = { concepts: [query] };
+      } else if (searchType === 'hybrid') {
+        // Hybrid search (combines BM25 and vector)
+        searchArgs.hybrid = { query, properties: searchProperties };
+      }
+      searchArgs.tenant = await this.tenantFor(collectionName);
+
+      // Get all properties for the collection to include in the query
+      const classes = await this.getSchema();
+      const collection = classes.find(c => c.class === collectionName);
+
+      const additional: Selection = ['id', 'score'];
+      if (includeVector) {
+        additional.push(...(await this.vectorSelection(collectionName)));
+      }
+
+      const graphqlQuery = buildQuery(
+        'Get',
+        collectionName,
+        { ...searchArgs, limit: limitValue },
+        [{ _additional: additional }, ...propertySelection(collection?.properties ?? [])],
+      );
+
+      console.log('Executing search query:', JSON.stringify({ query: graphqlQuery }, null, 2));
+
+      const response = await this.graphql(graphqlQuery);
+
+      const results = classResults(response, 'Get', collectionName);
+      if (!results) {
+        throw new WeaviateError('Invalid response structure from Weaviate');
+      }
+
+      return results;
+    } catch (error) {
+      console.error(`Error searching collection "${options.collectionName}":`, error);
+      throw error;
     }
-  } catch (error) {
-    console.error(`Error updating object in collection "${className}":`, error);
-    throw error;
   }
 }
 
-export type SearchType = 'bm25' | 'vector' | 'hybrid';
+// Checks a profile that may not be saved yet, so it can't go through a WeaviateClient
+export async function testConnection(profile: ConnectionProfile): Promise<void> {
+  if (window.electronAPI) {
+    const result = await window.electronAPI.testConnection(profile);
+    if (result.error) {
+      throw new WeaviateError(result.error);
+    }
+    if (result.status < 200 || result.status >= 300) {
+      throw new WeaviateError(`Connection failed: ${result.statusText} (Status: ${result.status})`, result.status);
+    }
+    return;
+  }
 
-export interface SearchOptions {
-  query: string;
-  collectionName: string;
-  searchType?: SearchType;
-  limit?: number;
-  properties?: string[];
+  const response = await fetch(`${profile.weaviateUrl.replace(/\/$/, '')}/v1/schema`, {
+    headers: buildHeaders(profile.headers, profile.apiKey),
+  });
+  if (!response.ok) {
+    throw new WeaviateError(`Connection failed: ${response.statusText} (Status: ${response.status})`, response.status);
+  }
 }
 
-export async function searchCollections(options: SearchOptions): Promise<CollectionData[]> {
-  try {
-    await initializeWeaviate();
-    if (!currentUrl || currentUrl.trim() === '') {
-      throw new Error('Weaviate URL is not configured. Please set it in Settings.');
-    }
-
-    const { query, collectionName, searchType = 'bm25', limit = 10, properties } = options;
-    const limitValue = limit || 10;
-
-    let searchDirective = '';
-    
-    if (searchType === 'bm25') {
-      // BM25 (keyword) search
-      const propertiesList = properties && properties.length > 0 
-        ? properties.map(p => `"${p}"`).join(', ')
-        : '';
-      searchDirective = `bm25: { query: "${query}"${propertiesList ? `, properties: [${propertiesList}]` : ''} }`;
-    } else if (searchType === 'vector') {
-      // Vector search (requires a vectorizer, using nearText as fallback)
-      searchDirective = `nearText: { concepts: ["${query}"] }`;
-    } else if (searchType === 'hybrid') {
-      // Hybrid search (combines BM25 and vector)
-      const propertiesList = properties && properties.length > 0 
-        ? properties.map(p => `"${p}"`).join(', ')
-        : '';
-      searchDirective = `hybrid: { query: "${query}"${propertiesList ? `, properties: [${propertiesList}]` : ''} }`;
-    }
-
-    // Get all properties for the collection to include in the query
-    const collections = await getCollections();
-    const collection = collections.find(c => c.name === collectionName);
-    const propertyNames = collection?.properties.map(p => p.name) || [];
-    const propertiesToFetch = propertyNames.length > 0 ? propertyNames.join('\n') : '_additional { id }';
-
-    const graphqlQuery = `{
-      Get {
-        ${collectionName}(
-          ${searchDirective}
-          limit: ${limitValue}
-        ) {
-          _additional {
-            id
-            score
-          }
-          ${propertiesToFetch}
-        }
-      }
-    }`;
+// Free-function API kept while components move to WeaviateClient. These
+// all talk to the active profile.
+let defaultClient: WeaviateClient | null = null;
 
-    console.log('Executing search query:', JSON.stringify({ query: graphqlQuery }, null, 2));
-    
-    const response = await executeQuery(graphqlQuery);
+export async function initializeWeaviate(): Promise<WeaviateClient | null> {
+  const profile = await getActiveProfile();
+  console.log('Initializing Weaviate with profile:', {
+    name: profile?.name ?? '(none)',
+    weaviateUrl: profile?.weaviateUrl ? `${profile.weaviateUrl.substring(0, 20)}...` : '(empty)',
+    hasApiKey: !!profile?.hasApiKey,
+  });
+  defaultClient = profile ? new WeaviateClient(profile) : null;
 
-    if (!response?.data?.Get) {
-      throw new Error('Invalid response structure from Weaviate');
-    }
+  if (!profile?.weaviateUrl || profile.weaviateUrl.trim() === '') {
+    console.warn('Weaviate URL is empty after initialization');
+  }
+  return defaultClient;
+}
 
-    return response.data.Get[collectionName] || [];
-  } catch (error) {
-    console.error(`Error searching collection "${options.collectionName}":`, error);
-    throw error;
+async function getDefaultClient(): Promise<WeaviateClient> {
+  const client = defaultClient ?? (await initializeWeaviate());
+  if (!client) {
+    throw new WeaviateError('Weaviate URL is not configured. Please set it in Settings.');
   }
+  return client;
+}
+
+export function getWeaviateUrl(): string {
+  return defaultClient?.url ?? 'URL not configured';
+}
+
+export async function executeQuery(queryStr: string): Promise<GraphQLResponse> {
+  return (await getDefaultClient()).graphql(queryStr);
+}
+
+export async function getCollections(): Promise<CollectionInfo[]> {
+  return (await getDefaultClient()).getCollections();
+}
+
+export async function getCollectionData(
+  className: string,
+  properties: { name: string; dataType: string | string[] }[],
+  sort?: SortConfig,
+  limit?: number,
+  offset?: number,
+): Promise<CollectionData[]> {
+  return (await getDefaultClient()).getCollectionData(className, properties, { sort, limit, offset });
+}
+
+export async function deleteObjects(className: string, objectIds: string[]): Promise<BatchDeleteResult> {
+  return (await getDefaultClient()).deleteObjects(className, objectIds);
+}
+
+export async function deleteCollection(className: string): Promise<void> {
+  return (await getDefaultClient()).deleteCollection(className);
+}
+
+export async function createCollection(schema: CreateCollectionSchema): Promise<void> {
+  return (await getDefaultClient()).createCollection(schema);
+}
+
+export async function createObject(className: string, object: Record<string, unknown>): Promise<string> {
+  return (await getDefaultClient()).createObject(className, object);
+}
+
+export async function getObjectById(className: string, objectId: string): Promise<CollectionData | null> {
+  return (await getDefaultClient()).getObjectById(className, objectId);
+}
+
+export async function updateObject(className: string, objectId: string, object: Record<string, unknown>): Promise<void> {
+  return (await getDefaultClient()).updateObject(className, objectId, object);
+}
+
+export async function searchCollections(options: SearchOptions): Promise<CollectionData[]> {
+  return (await getDefaultClient()).search(options);
 }
@@ -1,6 +1,47 @@
+import type { ConnectionProfile, SecretStorageStatus, Settings } from '../lib/settings';
+import type { CollectionPrefs } from '../lib/preferences';
+
+export interface BridgeRequest {
+  method: string;
+  path: string;
+  body?: string;
+  headers?: Record<string, string>;
+}
+
+export interface BridgeResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  error?: string;
+}
+
+export interface FileFilter {
+  name: string;
+  extensions: string[];
+}
+
 export interface ElectronAPI {
-  getSettings: () => Promise<{ weaviateUrl: string; apiKey: string }>;
-  saveSettings: (settings: { weaviateUrl: string; apiKey: string }) => Promise<{ success: boolean }>;
+  getSettings: () => Promise<Settings>;
+  saveSettings: (settings: Settings) => Promise<{ success: boolean }>;
+  setActiveProfile: (profileId: string) => Promise<{ success: boolean }>;
+  getSecretStorageStatus: () => Promise<SecretStorageStatus>;
+  weaviateRequest: (profileId: string | null, request: BridgeRequest) => Promise<BridgeResponse>;
+  testConnection: (profile: ConnectionProfile) => Promise<BridgeResponse>;
+  selectFile: (title: string) => Promise<string | null>;
+  getCollectionPrefs: (profileId: string, collection: string) => Promise<CollectionPrefs>;
+  saveCollectionPrefs: (
+    profileId: string,
+    collection: string,
+    prefs: Partial<CollectionPrefs>,
+  ) => Promise<{ success: boolean }>;
+  createFile: (
+    title: string,
+    defaultPath: string,
+    filters: FileFilter[],
+  ) => Promise<{ handle: string; filePath: string } | null>;
+  writeFile: (handle: string, chunk: string) => Promise<void>;
+  closeFile: (handle: string, discard: boolean) => Promise<void>;
 }
 
 declare global {
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Separate from vite.config.ts, whose root is the renderer; tests live next to
+// the modules they cover in both src/main and src/renderer
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+});